@@ -0,0 +1,304 @@
+/**
+ * Debugging CLI. Every subcommand goes through the same matching and update code
+ * as the sync itself, so results can't drift from production behavior.
+ *
+ * Usage:
+ *   bun cli.ts duplicates <project> <task>   cards the sync would treat as duplicates
+ *   bun cli.ts duplicates --all              duplicate cards across every client
+ *   bun cli.ts explain <harvest-entry-id>    how one time entry is matched
+ *   bun cli.ts card <notion-id>              how one card's hours are computed
+ *   bun cli.ts resync <project> [task]       recalculate and write a client or task
+ *   bun cli.ts dry-run [--client <name>] [--json <path>]
+ *                                            report writes the bulk sync would make
+ *   bun cli.ts backfill                      fill the hours number property on every card
+ */
+
+import { parseArgs } from "node:util";
+import { updateClientPages } from "./src/clientTotals";
+import { enableDryRun, reportDryRun } from "./src/dryRun";
+import { findDuplicateCards } from "./src/duplicates";
+import { entryIsIncluded } from "./src/filters";
+import {
+	getCardEntries,
+	processBulkUpdate,
+	runHoursBackfill,
+	shouldSync,
+	threeMonthsAgo,
+} from "./src/harvest";
+import {
+	getClientEntries,
+	getEntriesUpdatedSince,
+	getEntry,
+	getEntryCards,
+	hydrateLedger,
+} from "./src/ledger";
+import { getEntryKey } from "./src/linking";
+import { NotionCard } from "./src/NotionCard";
+import type { Card } from "./src/schema";
+import { round } from "./src/util";
+
+const { values, positionals } = parseArgs({
+	args: Bun.argv.slice(2),
+	allowPositionals: true,
+	options: {
+		all: { type: "boolean" },
+		client: { type: "string" },
+		json: { type: "string" },
+	},
+});
+
+const [command, ...args] = positionals;
+
+const usage = () => {
+	console.error(
+		[
+			"Usage:",
+			"  bun cli.ts duplicates <project> <task>",
+			"  bun cli.ts duplicates --all",
+			"  bun cli.ts explain <harvest-entry-id>",
+			"  bun cli.ts card <notion-id>",
+			"  bun cli.ts resync <project> [task]",
+			"  bun cli.ts dry-run [--client <name>] [--json <path>]",
+			"  bun cli.ts backfill",
+		].join("\n"),
+	);
+	process.exit(1);
+};
+
+const notionUrl = (id: string) => `https://notion.so/${id.replaceAll("-", "")}`;
+
+const printCard = (card: Card) => {
+	console.log(`   ID:         ${card.id}`);
+	console.log(`   Name:       "${card.taskName}"`);
+	console.log(`   Time Spent: "${card.timeSpent || "(empty)"}"`);
+	console.log(`   URL:        ${notionUrl(card.id)}`);
+	console.log();
+};
+
+/**
+ * duplicates <project> <task> | duplicates --all
+ */
+const duplicates = async () => {
+	if (values.all) {
+		const groups = await findDuplicateCards("bulk");
+		console.log(`\n🔍  Found ${groups.length} duplicate group(s)\n`);
+
+		for (const group of groups) {
+			console.log(
+				`📋  [${group.client.name}] ${group.cards.length} cards named "${group.cards[0]?.taskName}"`,
+			);
+			for (const card of group.cards) printCard(card);
+		}
+		return;
+	}
+
+	const [project, task] = args;
+	if (!project || !task) return usage();
+
+	console.log(`\n🔍  Looking for duplicates of "${task}" in "${project}"\n`);
+
+	const { clients, cards } = await NotionCard.findByName(
+		{ name: task, project },
+		"bulk",
+	);
+	if (clients.length === 0) {
+		console.error(`❌  No Notion client found matching "${project}"`);
+		process.exit(1);
+	}
+
+	console.log(`✅  Found ${clients.length} matching client(s):`);
+	for (const client of clients) {
+		console.log(`    • [${client.id}] "${client.name}"`);
+	}
+
+	console.log(`\n📋  Found ${cards.length} card(s) matching "${task}":\n`);
+	for (const card of cards) printCard(card);
+
+	if (cards.length > 1) {
+		console.log(
+			`⚠️   DUPLICATE DETECTED — ${cards.length} cards share this name.`,
+		);
+		console.log(
+			"    Delete or rename the extra card(s) in Notion to resolve the error.\n",
+		);
+	} else if (cards.length === 0) {
+		console.log("   (none — the card may have been renamed or deleted)\n");
+	} else {
+		console.log("✅  Only one card found — no duplicates at the moment.\n");
+	}
+};
+
+/**
+ * explain <harvest-entry-id>
+ */
+const explain = async () => {
+	const entryId = Number(args[0]);
+	if (!Number.isInteger(entryId)) return usage();
+
+	// matching a card can trigger a recalculation, which shouldn't write anything
+	enableDryRun();
+	await hydrateLedger("bulk");
+
+	const entry = getEntry(entryId);
+	if (!entry) {
+		console.error(`❌  Entry ${entryId} is not in the ledger (deleted?)`);
+		process.exit(1);
+	}
+
+	console.log(`\n🌾  Entry ${entry.id}`);
+	console.log(`   Client:   "${entry.client.name}"`);
+	console.log(`   Project:  "${entry.project.name}"`);
+	console.log(`   Task:     "${entry.task.name}"`);
+	console.log(`   User:     ${entry.user.name}`);
+	console.log(`   Date:     ${entry.spent_date}`);
+	console.log(
+		`   Hours:    ${entry.hours}${entry.is_running ? " (running)" : ""}`,
+	);
+	console.log(`   Notes:    "${entry.notes}"`);
+	console.log(`   Key:      ${getEntryKey(entry) ?? "(none)"}`);
+	console.log(
+		`   Included: ${entryIsIncluded(entry) ? "yes" : "no (filtered)"}`,
+	);
+
+	const previousCard = getEntryCards([entry.id]).get(entry.id);
+	console.log(`   Last card: ${previousCard ?? "(none)"}`);
+
+	if (!shouldSync(entry)) {
+		console.log("\n⏭️   This entry is never synced to Notion.\n");
+		return;
+	}
+
+	const card = await NotionCard.getOrCreate(
+		{
+			name: entry.notes,
+			project: entry.client.name,
+			key: getEntryKey(entry),
+		},
+		"bulk",
+	);
+	if (!card) {
+		console.log("\n❌  No card matches this entry.\n");
+		return;
+	}
+
+	const { id, projectName, taskName } = card.describe();
+	console.log(`\n✅  Matches [${projectName}] - "${taskName}"`);
+	console.log(`   ${notionUrl(id)}\n`);
+};
+
+/**
+ * card <notion-id>
+ */
+const inspectCard = async () => {
+	const [notionId] = args;
+	if (!notionId) return usage();
+
+	enableDryRun();
+	await hydrateLedger("bulk");
+
+	const card = await NotionCard.getOrCreate({ id: notionId }, "bulk");
+	if (!card) {
+		console.error(`❌  ${notionId} is not a task card the sync can read`);
+		process.exit(1);
+	}
+
+	await card.update("bulk");
+	const details = card.describe();
+
+	const entries = await getCardEntries({
+		taskName: details.taskName,
+		clientName: details.projectName,
+		key: details.key,
+		updateType: "bulk",
+	});
+
+	console.log(`\n📋  [${details.projectName}] - "${details.taskName}"`);
+	console.log(`   URL:         ${notionUrl(details.id)}`);
+	console.log(`   Key:         ${details.key ?? "(none)"}`);
+	console.log(`   Local hours: ${details.localHours}`);
+	console.log(`   Child hours: ${details.childHours}`);
+	console.log(`   Total:       ${details.hours}`);
+	console.log(
+		`   By person:   ${
+			Object.entries(details.contributors)
+				.map(([person, hours]) => `${person} ${round(hours)}h`)
+				.join(", ") || "(nobody)"
+		}\n`,
+	);
+
+	console.table(
+		entries.map((e) => ({
+			id: e.id,
+			date: e.spent_date,
+			user: e.user.name,
+			hours: e.hours,
+			notes: e.notes,
+		})),
+	);
+	await reportDryRun();
+};
+
+/**
+ * resync <project> [task]
+ */
+const resync = async () => {
+	const [project, task] = args;
+	if (!project) return usage();
+
+	await hydrateLedger("bulk");
+
+	if (task) {
+		const card = await NotionCard.find({ name: task, project }, "bulk");
+		if (!card) {
+			console.error(`❌  No card found for "${task}" in "${project}"`);
+			process.exit(1);
+		}
+		await card.update("bulk");
+		console.log(`✅  Resynced ${JSON.stringify(card.describe())}`);
+		return;
+	}
+
+	await processBulkUpdate(getClientEntries(project).filter(shouldSync));
+};
+
+/**
+ * dry-run [--client <name>] [--json <path>]
+ */
+const dryRun = async () => {
+	enableDryRun();
+	await hydrateLedger("bulk");
+
+	const entries = (
+		values.client
+			? getClientEntries(values.client)
+			: getEntriesUpdatedSince(threeMonthsAgo())
+	).filter(shouldSync);
+
+	await processBulkUpdate(entries);
+	await updateClientPages("bulk", values.client ? [values.client] : undefined);
+	await reportDryRun(values.json);
+};
+
+/**
+ * backfill
+ */
+const backfill = async () => {
+	await hydrateLedger("bulk");
+	await runHoursBackfill();
+};
+
+const commands: Record<string, () => Promise<void>> = {
+	duplicates,
+	explain,
+	card: inspectCard,
+	resync,
+	"dry-run": dryRun,
+	backfill,
+};
+
+const run = command ? commands[command] : undefined;
+if (!run) usage();
+else await run();
+
+// caches and scheduled jobs hold timers, so exit explicitly
+process.exit(0);
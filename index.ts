@@ -1,9 +1,13 @@
 import logger from "node-color-log";
 import { startWatching } from "./src/harvest";
 import { startHeartbeatChecker } from "./src/heartbeat";
+import { validateNotionSchema } from "./src/schema";
 
 logger.setDate(() => new Date().toLocaleTimeString());
 logger.info("starting up");
 
+// fail loudly before syncing anything if notion doesn't look like the config says
+await validateNotionSchema("realtime");
+
 startHeartbeatChecker();
 startWatching();
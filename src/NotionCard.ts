@@ -1,53 +1,104 @@
-import { MINUTE } from "better-memory-cache";
-import { $ } from "bun";
+import { Mutex } from "async-mutex";
 import { z } from "zod";
-import { getHoursByName } from "./harvest";
+import { checkBudget, getEstimate, percentUsedChanged } from "./budget";
+import { config } from "./config";
+import {
+	type Contributors,
+	contributorsChanged,
+	getContributors,
+	mergeContributors,
+} from "./contributors";
+import { flagDuplicates } from "./duplicates";
+import { autoCreateEnabled } from "./filters";
+import { getCardEntries, sumHours } from "./harvest";
+import type { LedgerEntry } from "./ledger";
 import type { UpdateType } from "./limits";
+import { getCardKey, getKeyedCards, stripEntryKey } from "./linking";
 import { logMessage, warn } from "./logging";
-import { getPage, queryDatabase, sendError, updateHours } from "./notion";
-import { clientNamesMatch, taskNamesMatch } from "./util";
-
-const cardSchema = z.object({
-	id: z.string(),
-	properties: z.object({
-		"Parent task": z.object({
-			relation: z.array(
-				z.object({
-					id: z.string(),
-				}),
-			),
-		}),
-		"Sub-tasks": z.object({
-			relation: z.array(
-				z.object({
-					id: z.string(),
-				}),
-			),
-		}),
-		"Task name": z.object({
-			title: z.array(z.object({ plain_text: z.string() })),
-		}),
-		Project: z.object({
-			relation: z.array(z.object({ id: z.string() })),
-		}),
-		"Time Spent": z.object({
-			rich_text: z.array(
-				z.object({
-					plain_text: z.string(),
-				}),
-			),
-		}),
-	}),
-});
-
-const clientSchema = z.object({
-	id: z.string(),
-	properties: z.object({
-		"Project Name": z.object({
-			title: z.array(z.object({ plain_text: z.string() })),
-		}),
-	}),
-});
+import { createTaskCard, getPage, queryDatabase, updateHours } from "./notion";
+import { markActive, trackCard, untrackCard } from "./scheduler";
+import {
+	type Card,
+	cardSchema,
+	clientSchema,
+	type NotionClient,
+	readNumber,
+} from "./schema";
+import {
+	clientNamesMatch,
+	normalizeTaskName,
+	round,
+	taskNamesMatch,
+} from "./util";
+import {
+	getWindows,
+	mergeWindows,
+	type Windows,
+	windowsChanged,
+} from "./windows";
+
+/**
+ * the hours we last wrote to a card. the number property is authoritative when it's
+ * configured, otherwise fall back to the first word of the "Time Spent" text
+ */
+const getPreviousHours = (card: unknown, previousText: string) => {
+	if (config.properties.hours) {
+		// an empty number hasn't been backfilled yet, so it always needs a write
+		return readNumber(card, config.properties.hours) ?? Number.NaN;
+	}
+
+	const previousHoursAsText = previousText.split(" ").at(0)?.trim();
+	return Number.parseFloat(previousHoursAsText ?? "");
+};
+
+/**
+ * a title for a card created from entry notes: the first line, without the key
+ * marker or inline [...] / (...) details, which name matching ignores anyway
+ */
+const cardNameFromNotes = (notes: string) => {
+	const firstLine = (line: string) =>
+		line.trim().split(/\r?\n/)[0]?.trim() ?? "";
+	const name = firstLine(stripEntryKey(notes))
+		.replace(/\[[^\]]*\]/g, "")
+		.replace(/\([^)]*\)/g, "")
+		.replace(/\s+/g, " ")
+		.trim();
+
+	return name || firstLine(notes);
+};
+
+type LastEntry = { person: string; updatedAt: string } | undefined;
+
+/**
+ * whichever entry was updated most recently
+ */
+const latest = (entries: LastEntry[]) =>
+	entries.reduce<LastEntry>(
+		(acc, entry) =>
+			entry && (!acc || entry.updatedAt > acc.updatedAt) ? entry : acc,
+		undefined,
+	);
+
+const getLastEntry = (entries: LedgerEntry[]) =>
+	latest(
+		entries.map((entry) => ({
+			person: entry.user.name,
+			updatedAt: entry.updated_at,
+		})),
+	);
+
+/**
+ * archived and trashed pages can't be written to, and shouldn't be kept around
+ */
+const isRemoved = (page: unknown) => {
+	const status = z
+		.object({
+			archived: z.boolean().optional(),
+			in_trash: z.boolean().optional(),
+		})
+		.safeParse(page).data;
+	return Boolean(status?.archived || status?.in_trash);
+};
 
 export class NotionCard {
 	private static allCards: Record<string, NotionCard> = {};
@@ -55,45 +106,68 @@ export class NotionCard {
 	private notionId: string;
 	private taskName: string;
 	private projectName: string;
+	private key: string | undefined;
 
 	private localHours: number;
 	private childHours = 0;
+	private localLastEntry: LastEntry;
+	private childLastEntry: LastEntry;
+	private localContributors: Contributors;
+	private childContributors: Contributors = {};
+	private localWindows: Windows;
+	private childWindows: Windows = { hours: {}, lastTracked: undefined };
 	private updatePromise: Promise<void> | null = null;
 
 	private constructor({
 		card,
 		client,
-		initialHours,
+		initialEntries,
 	}: {
-		card: z.infer<typeof cardSchema>;
-		client: z.infer<typeof clientSchema>;
-		initialHours?: number;
+		card: Card;
+		client: NotionClient;
+		initialEntries?: LedgerEntry[];
 	}) {
 		this.notionId = card.id;
-		this.taskName = card.properties["Task name"].title
-			.map((t) => t.plain_text)
-			.join("")
-			.trim();
-		this.projectName = client.properties["Project Name"].title
-			.map((t) => t.plain_text)
-			.join("")
-			.trim();
-		this.localHours = initialHours ?? 0;
+		this.taskName = card.taskName;
+		this.projectName = client.name;
+		this.key = getCardKey(card);
+		this.localHours = sumHours(initialEntries ?? []);
+		this.localLastEntry = getLastEntry(initialEntries ?? []);
+		this.localContributors = getContributors(initialEntries ?? []);
+		this.localWindows = getWindows(initialEntries ?? []);
 		NotionCard.allCards[card.id] = this;
 
-		this.backgroundUpdate("background");
+		trackCard(this);
+	}
+
+	public get id() {
+		return this.notionId;
 	}
 
 	private getHours() {
 		return this.localHours + this.childHours;
 	}
 
-	private async backgroundUpdate(updateType: UpdateType) {
-		await this.update(updateType);
+	private getLastEntry() {
+		return latest([this.localLastEntry, this.childLastEntry]);
+	}
 
-		setTimeout(() => {
-			this.backgroundUpdate(updateType);
-		}, MINUTE * 5);
+	private getContributors() {
+		return mergeContributors(this.localContributors, this.childContributors);
+	}
+
+	private getWindows() {
+		return mergeWindows(this.localWindows, this.childWindows);
+	}
+
+	/**
+	 * drop the card from the cache. if anything needs it again it's loaded fresh
+	 */
+	public evict() {
+		untrackCard(this.notionId);
+		if (NotionCard.allCards[this.notionId] === this) {
+			delete NotionCard.allCards[this.notionId];
+		}
 	}
 
 	public update(updateType: UpdateType, __chain: string[] = []): Promise<void> {
@@ -107,6 +181,8 @@ export class NotionCard {
 			return Promise.resolve(); // Prevent infinite loop
 		}
 
+		if (updateType === "realtime") markActive(this.notionId);
+
 		if (this.updatePromise) {
 			return this.updatePromise;
 		}
@@ -122,31 +198,37 @@ export class NotionCard {
 		chain: string[],
 	): Promise<void> {
 		try {
-			const data = cardSchema.safeParse(
-				await getPage(this.notionId, updateType),
-			).data;
+			const page = await getPage(this.notionId, updateType);
+			if (isRemoved(page)) {
+				logMessage(
+					"LOOP",
+					`[${this.projectName}] - "${this.taskName}" was archived, no longer tracking it`,
+				);
+				this.evict();
+				return;
+			}
+
+			const data = cardSchema.safeParse(page).data;
 			if (!data) return;
 
-			const previousHoursAsText = data.properties["Time Spent"].rich_text
-				.map((t) => t.plain_text)
-				.join("")
-				.trim()
-				.split(" ")
-				.at(0)
-				?.trim();
-			const previousHours = Number.parseFloat(previousHoursAsText ?? "");
+			const previousText = data.timeSpent;
+			const previousHours = getPreviousHours(data, previousText);
 
-			this.localHours = await getHoursByName({
+			// the key can be edited in notion at any time
+			this.key = getCardKey(data);
+			const entries = await getCardEntries({
 				taskName: this.taskName,
 				clientName: this.projectName,
+				key: this.key,
 				updateType,
 			});
+			this.localHours = sumHours(entries);
+			this.localLastEntry = getLastEntry(entries);
+			this.localContributors = getContributors(entries);
+			this.localWindows = getWindows(entries);
 
-			const parentIds = data.properties["Parent task"].relation.map(
-				(r) => r.id,
-			);
-			const childIds = data.properties["Sub-tasks"].relation
-				.map((r) => r.id)
+			const parentIds = data.parentIds;
+			const childIds = data.childIds
 				// skip if the card somehow references itself – otherwise we'll keep inflating hours
 				.filter((id) => {
 					const isSelf = id === this.notionId;
@@ -166,9 +248,18 @@ export class NotionCard {
 				),
 			);
 
-			this.childHours = children
-				.filter((c) => c !== null)
-				.reduce((acc, c) => acc + c.getHours(), 0);
+			const loadedChildren = children.filter((c) => c !== null);
+			this.childHours = loadedChildren.reduce(
+				(acc, c) => acc + c.getHours(),
+				0,
+			);
+			this.childLastEntry = latest(loadedChildren.map((c) => c.getLastEntry()));
+			this.childContributors = mergeContributors(
+				...loadedChildren.map((c) => c.getContributors()),
+			);
+			this.childWindows = mergeWindows(
+				...loadedChildren.map((c) => c.getWindows()),
+			);
 
 			const parents = await Promise.all(
 				parentIds.map(async (parentId) =>
@@ -180,7 +271,27 @@ export class NotionCard {
 
 			// actually update the page
 			const newHours = this.getHours();
-			if (newHours === previousHours) {
+			const roundedHours = round(newHours);
+			const contributors = this.getContributors();
+			const estimate = getEstimate(data);
+			const windows = this.getWindows();
+			const label = `[${this.projectName}] - ${this.taskName}`;
+
+			await checkBudget({
+				notionId: this.notionId,
+				label,
+				hours: newHours,
+				estimate,
+				updateType,
+			});
+
+			// compare at the precision we write, so float noise doesn't cause writes
+			if (
+				roundedHours === previousHours &&
+				!contributorsChanged(data, contributors) &&
+				!percentUsedChanged(data, roundedHours, estimate) &&
+				!windowsChanged(data, windows)
+			) {
 				if (updateType === "realtime") {
 					logMessage(
 						"SKIP",
@@ -189,15 +300,28 @@ export class NotionCard {
 				}
 				return;
 			}
-			await updateHours(this.notionId, newHours, updateType);
+			await updateHours(
+				{
+					notionId: this.notionId,
+					label,
+					previousText,
+					localHours: this.localHours,
+					childHours: this.childHours,
+					lastPerson: this.getLastEntry()?.person,
+					contributors,
+					estimate,
+					windows,
+				},
+				updateType,
+			);
 			if (updateType === "realtime") {
 				logMessage(
 					"WRITE",
 					`updated hours for [${this.projectName}] - "${
 						this.taskName
-					}" to ${Math.round(newHours * 100) / 100} (${this.localHours} + ${
-						Math.round(this.childHours * 100) / 100
-					})`,
+					}" to ${round(newHours)} (${this.localHours} + ${round(
+						this.childHours,
+					)})`,
 				);
 			}
 		} finally {
@@ -205,15 +329,29 @@ export class NotionCard {
 		}
 	}
 
+	/**
+	 * look up an existing card without creating one or flagging duplicates, for paths
+	 * that only recalculate (e.g. after an entry was deleted) or take a name from
+	 * someone typing it
+	 */
+	public static find(
+		props: { name: string; project: string; key?: string },
+		updateType: UpdateType,
+	) {
+		return NotionCard.getOrCreate(props, updateType, { readOnly: true });
+	}
+
 	public static async getOrCreate(
 		props:
 			| { id: string }
 			| {
 					name: string;
 					project: string;
+					key?: string;
 			  },
 		updateType: UpdateType,
-	) {
+		{ readOnly = false }: { readOnly?: boolean } = {},
+	): Promise<NotionCard | null> {
 		/**
 		 * create by id
 		 */
@@ -226,7 +364,7 @@ export class NotionCard {
 			).data;
 			if (!card) return null;
 
-			const projectId = card.properties.Project.relation.at(0)?.id;
+			const projectId = card.projectIds.at(0);
 			if (!projectId) return null;
 
 			const client = clientSchema.safeParse(
@@ -234,19 +372,44 @@ export class NotionCard {
 			).data;
 			if (!client) return null;
 
-			// when we download a referenced card, we'll need to know the initial hours
+			// when we download a referenced card, we'll need to know the initial hours (and who logged them)
 			// this is only needed for referenced cards, updates triggered by harvest will automatically update the hours
-			const initialHours = await getHoursByName({
-				taskName: card.properties["Task name"].title
-					.map((t) => t.plain_text)
-					.join(""),
-				clientName: client.properties["Project Name"].title
-					.map((t) => t.plain_text)
-					.join(""),
+			const initialEntries = await getCardEntries({
+				taskName: card.taskName,
+				clientName: client.name,
+				key: getCardKey(card),
 				updateType,
 			});
 
-			return new NotionCard({ card, client, initialHours });
+			return new NotionCard({ card, client, initialEntries });
+		}
+
+		/**
+		 * create by explicit key, falling back to name matching below
+		 */
+		if (props.key) {
+			const cached = Object.values(NotionCard.allCards).find(
+				(card) => card.key === props.key,
+			);
+			if (cached) return cached;
+
+			const keyedCards = (await getKeyedCards(updateType)).filter(
+				(card) => getCardKey(card) === props.key,
+			);
+
+			if (keyedCards.length > 1) {
+				warn(
+					`multiple cards share the key "${props.key}" in ${props.project}`,
+					undefined,
+					updateType,
+				);
+				return null;
+			}
+
+			const keyedCard = keyedCards[0];
+			if (keyedCard) {
+				return NotionCard.getOrCreate({ id: keyedCard.id }, updateType);
+			}
 		}
 
 		/**
@@ -260,53 +423,12 @@ export class NotionCard {
 		});
 		if (relevantCard) return relevantCard;
 
-		const clientRequest = await queryDatabase({
-			type: "client",
-			updateType,
-		});
-
-		const clients = clientRequest.results
-			.map((client) => clientSchema.safeParse(client))
-			.filter((e) => e.success)
-			.filter((client) =>
-				clientNamesMatch(
-					client.data.properties["Project Name"].title
-						.map((title) => title.plain_text)
-						.join(""),
-					props.project,
-				),
-			)
-			?.map((c) => c.data);
+		const { clients, cards } = await NotionCard.findByName(props, updateType);
 		if (clients.length === 0) {
 			warn(`no client found for "${props.project}"`, undefined, updateType);
 			return null;
 		}
 
-		const matchingCardsRequest = await queryDatabase({
-			type: "task",
-			filter: {
-				or: clients.map((client) => ({
-					property: "Project",
-					relation: {
-						contains: client.id,
-					},
-				})),
-			},
-			updateType,
-		});
-
-		const cards = matchingCardsRequest.results
-			.map((card) => cardSchema.safeParse(card))
-			.filter((e) => e.success)
-			.filter((card) =>
-				taskNamesMatch(
-					card.data.properties["Task name"].title
-						.map((title) => title.plain_text)
-						.join(""),
-					props.name,
-				),
-			);
-
 		// if there are too many cards, that indicates an issue in notion
 		if (cards.length > 1) {
 			warn(
@@ -314,26 +436,24 @@ export class NotionCard {
 				undefined,
 				updateType,
 			);
-			await Promise.all(
-				cards.map((card) => sendError(card.data.id, updateType)),
-			);
+			if (!readOnly) await flagDuplicates(cards, updateType);
 			return null;
 		}
 
-		const card = cards[0]?.data;
+		const card = cards[0];
+		if (!card && !readOnly && autoCreateEnabled(props.project)) {
+			return NotionCard.createForEntry(props, clients, updateType);
+		}
 		if (!card) {
 			warn(
 				`no card found for "${props.name}" in ${props.project}`,
 				undefined,
 				updateType,
 			);
-			$`say wee woo`;
 			return null;
 		}
 
-		const client = clients.find(
-			(c) => c.id === card.properties.Project.relation.at(0)?.id,
-		);
+		const client = clients.find((c) => c.id === card.projectIds.at(0));
 
 		if (!client) {
 			warn(
@@ -346,4 +466,136 @@ export class NotionCard {
 
 		return new NotionCard({ card, client });
 	}
+
+	private static creationLocks = new Map<string, Mutex>();
+
+	/**
+	 * create a missing card for a client that opted in to auto creation.
+	 *
+	 * realtime updates for the same entry can arrive concurrently, and the database
+	 * query they ran is cached, so creation is locked per client + task name and we
+	 * re-check the cards we already know about before creating anything
+	 */
+	private static async createForEntry(
+		props: { name: string; project: string; key?: string },
+		clients: NotionClient[],
+		updateType: UpdateType,
+	) {
+		const client = clients[0];
+		if (!client || clients.length > 1) {
+			warn(
+				`not creating a card for "${props.name}", ${props.project} matches ${clients.length} clients`,
+				undefined,
+				updateType,
+			);
+			return null;
+		}
+
+		const name = cardNameFromNotes(props.name);
+		const lockKey = `${client.id}:${normalizeTaskName(name)}`;
+		const lock = NotionCard.creationLocks.get(lockKey) ?? new Mutex();
+		NotionCard.creationLocks.set(lockKey, lock);
+
+		const created = lock.runExclusive(async () => {
+			const existing = Object.values(NotionCard.allCards).find(
+				(card) =>
+					(props.key && card.key === props.key) ||
+					(taskNamesMatch(card.taskName, name) &&
+						clientNamesMatch(card.projectName, props.project)),
+			);
+			if (existing) return existing;
+
+			const page = await createTaskCard({
+				name,
+				clientId: client.id,
+				key: props.key,
+				updateType,
+			});
+			const card = cardSchema.safeParse(page).data;
+			if (!card) return null;
+
+			logMessage("WRITE", `created card [${props.project}] - "${name}"`);
+			return new NotionCard({ card, client });
+		});
+
+		// drop the lock once nobody is waiting on it, so they don't pile up forever
+		return created.finally(() => {
+			if (!lock.isLocked() && NotionCard.creationLocks.get(lockKey) === lock) {
+				NotionCard.creationLocks.delete(lockKey);
+			}
+		});
+	}
+
+	/**
+	 * find the notion clients matching a project, and every task card in them, using
+	 * the same fuzzy matching as the sync itself
+	 */
+	public static async findClientCards(project: string, updateType: UpdateType) {
+		const clientRequest = await queryDatabase({
+			type: "client",
+			updateType,
+		});
+
+		const clients = clientRequest.results
+			.map((client) => clientSchema.safeParse(client))
+			.filter((e) => e.success)
+			.filter((client) => clientNamesMatch(client.data.name, project))
+			?.map((c) => c.data);
+		if (clients.length === 0) return { clients, cards: [] };
+
+		const matchingCardsRequest = await queryDatabase({
+			type: "task",
+			filter: {
+				or: clients.map((client) => ({
+					property: config.properties.project,
+					relation: {
+						contains: client.id,
+					},
+				})),
+			},
+			updateType,
+		});
+
+		const cards = matchingCardsRequest.results
+			.map((card) => cardSchema.safeParse(card))
+			.filter((e) => e.success)
+			.map((card) => card.data);
+
+		return { clients, cards };
+	}
+
+	/**
+	 * find the notion clients and task cards matching a task name + project
+	 */
+	public static async findByName(
+		props: { name: string; project: string },
+		updateType: UpdateType,
+	) {
+		const { clients, cards } = await NotionCard.findClientCards(
+			props.project,
+			updateType,
+		);
+
+		return {
+			clients,
+			cards: cards.filter((card) => taskNamesMatch(card.taskName, props.name)),
+		};
+	}
+
+	/**
+	 * a snapshot of what this card last computed, for debugging
+	 */
+	public describe() {
+		return {
+			id: this.notionId,
+			taskName: this.taskName,
+			projectName: this.projectName,
+			key: this.key,
+			localHours: this.localHours,
+			childHours: round(this.childHours),
+			hours: round(this.getHours()),
+			lastPerson: this.getLastEntry()?.person,
+			contributors: this.getContributors(),
+		};
+	}
 }
@@ -0,0 +1,93 @@
+import { config } from "./config";
+import { isDryRun } from "./dryRun";
+import { getMeta, setMeta } from "./ledger";
+import type { UpdateType } from "./limits";
+import { warn } from "./logging";
+import { readNumber } from "./schema";
+import { round } from "./util";
+
+/**
+ * estimate vs. actual tracking. cards with an estimate get a percent-used value, and
+ * slack hears about it once when a card crosses each configured threshold
+ */
+
+/**
+ * the card's estimate in hours, if it has a usable one
+ */
+export const getEstimate = (card: unknown) => {
+	const estimate = readNumber(card, config.properties.estimate);
+	return estimate && estimate > 0 ? estimate : undefined;
+};
+
+/**
+ * hours / estimate, as notion's percent format expects (1 = 100%)
+ */
+const getPercentUsed = (hours: number, estimate: number | undefined) =>
+	estimate ? Math.round((hours / estimate) * 10000) / 10000 : null;
+
+export const percentUsedProperty = (
+	hours: number,
+	estimate: number | undefined,
+) => {
+	const property = config.properties.percentUsed;
+	if (!property) return undefined;
+
+	return { [property]: { number: getPercentUsed(hours, estimate) } };
+};
+
+/**
+ * whether the percent used on a card differs from what we'd write, e.g. because the
+ * estimate was edited
+ */
+export const percentUsedChanged = (
+	card: unknown,
+	hours: number,
+	estimate: number | undefined,
+) => {
+	const property = config.properties.percentUsed;
+	if (!property) return false;
+
+	return (
+		(readNumber(card, property) ?? null) !== getPercentUsed(hours, estimate)
+	);
+};
+
+/**
+ * alert once per threshold. the highest threshold we've alerted on is kept per card,
+ * and lowered again if the card drops back under it (e.g. the estimate was raised)
+ */
+export const checkBudget = async ({
+	notionId,
+	label,
+	hours,
+	estimate,
+	updateType,
+}: {
+	notionId: string;
+	label: string;
+	hours: number;
+	estimate: number | undefined;
+	updateType: UpdateType;
+}) => {
+	if (!estimate || isDryRun()) return;
+
+	const metaKey = `budget_alert:${notionId}`;
+	const alerted = Number(getMeta(metaKey) ?? 0);
+	const percent = (hours / estimate) * 100;
+
+	const crossed = config.budget.thresholds
+		.filter((threshold) => percent >= threshold)
+		.reduce((highest, threshold) => Math.max(highest, threshold), 0);
+
+	if (crossed !== alerted) setMeta(metaKey, `${crossed}`);
+	if (crossed <= alerted) return;
+
+	await warn(
+		`${label} has used ${Math.round(percent)}% of its estimate (${round(
+			hours,
+		)} of ${estimate} hours, including sub-tasks)`,
+		undefined,
+		updateType,
+		{ coolDownKey: `budget:${notionId}:${crossed}`, everyUpdateType: true },
+	);
+};
@@ -0,0 +1,135 @@
+import { config } from "./config";
+import { entryIsIncluded } from "./filters";
+import { getClientEntries } from "./ledger";
+import type { UpdateType } from "./limits";
+import { getCardKey, getCardsMatcher } from "./linking";
+import { logMessage } from "./logging";
+import {
+	type ClientTotals,
+	getPage,
+	queryDatabase,
+	updateClientTotals,
+} from "./notion";
+import {
+	cardSchema,
+	clientSchema,
+	type NotionClient,
+	readNumber,
+} from "./schema";
+import { clientNamesMatch, round } from "./util";
+
+/**
+ * per-client hour totals, written to the client's page in the client database.
+ * unmatched hours are included, so the total is every hour harvest has for the client
+ */
+
+const fields = ["total", "matched", "unmatched"] as const;
+
+const enabled = () => fields.some((field) => config.clientTotals[field]);
+
+/**
+ * the totals currently on a client page
+ */
+const getPreviousTotals = (page: unknown) =>
+	Object.fromEntries(
+		fields.map((field) => {
+			return [field, readNumber(page, config.clientTotals[field]) ?? null];
+		}),
+	) as Record<keyof ClientTotals, number | null>;
+
+/**
+ * total up a client from the ledger. an entry is matched if the same matching the
+ * cards use would count it towards any card in the client
+ */
+const getClientTotals = async (
+	client: NotionClient,
+	updateType: UpdateType,
+): Promise<ClientTotals> => {
+	const cards = (
+		await queryDatabase({
+			type: "task",
+			filter: {
+				property: config.properties.project,
+				relation: { contains: client.id },
+			},
+			updateType,
+		})
+	).results
+		.map((card) => cardSchema.safeParse(card))
+		.filter((e) => e.success)
+		.map((card) => card.data);
+
+	const matchesAnyCard = await getCardsMatcher(
+		cards.map((card) => ({ taskName: card.taskName, key: getCardKey(card) })),
+		updateType,
+	);
+
+	const entries = getClientEntries(client.name).filter(entryIsIncluded);
+	let total = 0;
+	let matched = 0;
+	for (const entry of entries) {
+		total += entry.hours;
+		if (matchesAnyCard(entry)) matched += entry.hours;
+	}
+
+	return {
+		total: round(total),
+		matched: round(matched),
+		unmatched: round(total - matched),
+	};
+};
+
+export const updateClientPage = async (
+	client: NotionClient,
+	updateType: UpdateType,
+) => {
+	if (!enabled()) return;
+
+	const totals = await getClientTotals(client, updateType);
+	const previous = getPreviousTotals(await getPage(client.id, updateType));
+
+	const changed = fields.some(
+		(field) => config.clientTotals[field] && previous[field] !== totals[field],
+	);
+	if (!changed) return;
+
+	await updateClientTotals(
+		{
+			notionId: client.id,
+			label: client.name,
+			previousTotal: `${previous.total ?? ""}`,
+			totals,
+		},
+		updateType,
+	);
+	if (updateType === "realtime") {
+		logMessage(
+			"WRITE",
+			`updated totals for [${client.name}] to ${totals.total} (${totals.matched} matched, ${totals.unmatched} unmatched)`,
+		);
+	}
+};
+
+/**
+ * update every client page, or just the ones matching the given harvest client names
+ */
+export const updateClientPages = async (
+	updateType: UpdateType,
+	clientNames?: string[],
+) => {
+	if (!enabled()) return;
+
+	const clients = (await queryDatabase({ type: "client", updateType })).results
+		.map((client) => clientSchema.safeParse(client))
+		.filter((e) => e.success)
+		.map((client) => client.data)
+		.filter(
+			(client) =>
+				!clientNames ||
+				clientNames.some((name) => clientNamesMatch(name, client.name)),
+		);
+
+	await Promise.all(
+		clients.map((client) => updateClientPage(client, updateType)),
+	);
+};
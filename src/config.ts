@@ -0,0 +1,282 @@
+import { z } from "zod";
+
+/**
+ * glob patterns (case insensitive) matched against each part of a harvest entry,
+ * as plain strings rather than paths
+ */
+const filterRuleSchema = z
+	.object({
+		clients: z.array(z.string()).default([]),
+		projects: z.array(z.string()).default([]),
+		tasks: z.array(z.string()).default([]),
+		users: z.array(z.string()).default([]),
+	})
+	.prefault({});
+
+/**
+ * a "Time Spent" template: rich text segments, either plain text or a katex
+ * equation. variables are written as {{name}}
+ */
+const templateSchema = z.array(
+	z.union([z.object({ text: z.string() }), z.object({ equation: z.string() })]),
+);
+
+/**
+ * runtime configuration, loaded from a json file so that client renames and similar
+ * tweaks don't need a code deploy
+ */
+const configSchema = z
+	.object({
+		properties: z
+			.object({
+				/**
+				 * names of the notion properties the sync reads and writes
+				 */
+				taskName: z.string().default("Task name"),
+				parentTask: z.string().default("Parent task"),
+				subTasks: z.string().default("Sub-tasks"),
+				project: z.string().default("Project"),
+				timeSpent: z.string().default("Time Spent"),
+				/**
+				 * title property on client database pages
+				 */
+				projectName: z.string().default("Project Name"),
+				/**
+				 * number property on task cards that gets the hours alongside the "Time Spent"
+				 * text, so formulas and rollups can use it
+				 */
+				hours: z.string().optional(),
+				/**
+				 * number property on task cards holding the estimated hours
+				 */
+				estimate: z.string().optional(),
+				/**
+				 * number property (formatted as a percent) that gets hours / estimate
+				 */
+				percentUsed: z.string().optional(),
+			})
+			.prefault({}),
+		timeSpent: z
+			.object({
+				/**
+				 * iana timezone for timestamps. defaults to the server's timezone
+				 */
+				timezone: z
+					.string()
+					.refine(
+						(timeZone) => {
+							try {
+								new Intl.DateTimeFormat("en-US", { timeZone });
+								return true;
+							} catch {
+								return false;
+							}
+						},
+						{ message: "not a valid IANA timezone" },
+					)
+					.optional(),
+				/**
+				 * used for realtime and background writes
+				 */
+				realtime: templateSchema.default([
+					{ text: "{{hours}} Hours Spent\t" },
+					{ equation: "^{ {{updatedAt}} }" },
+				]),
+				bulk: templateSchema.default([{ text: "{{hours}} Hours Spent\t" }]),
+			})
+			.prefault({}),
+		clients: z
+			.object({
+				/**
+				 * names that should be treated as another name, e.g.
+				 * "reform internal tasks" -> "reform collective"
+				 */
+				aliases: z.record(z.string(), z.string()).default({}),
+				/**
+				 * substrings to rewrite anywhere in a name, e.g. "new form" -> "newform"
+				 */
+				rewrites: z
+					.array(z.object({ from: z.string(), to: z.string() }))
+					.default([]),
+				/**
+				 * clients that should only match exactly, for names that would otherwise
+				 * collide through prefix matching
+				 */
+				exactMatch: z.array(z.string()).default([]),
+			})
+			.prefault({}),
+		filters: z
+			.object({
+				/**
+				 * when a list has patterns, an entry must match one of them to be synced
+				 */
+				include: filterRuleSchema,
+				/**
+				 * entries matching any of these are never synced
+				 */
+				exclude: filterRuleSchema,
+			})
+			.prefault({}),
+		linking: z
+			.object({
+				/**
+				 * rich text property on task cards holding a stable key. entries linked to
+				 * that key count towards the card no matter what the card is named
+				 */
+				property: z.string().optional(),
+				/**
+				 * regex with one capture group that pulls a key out of entry notes. the
+				 * default matches "[key: QA-2]", which name matching already ignores
+				 */
+				notesPattern: z
+					.string()
+					.refine(
+						(pattern) => {
+							try {
+								// matching "" against `pattern|` shows how many groups it has
+								const groups = new RegExp(`${pattern}|`).exec("")?.length ?? 0;
+								return groups > 1;
+							} catch {
+								return false;
+							}
+						},
+						{ message: "not a valid regex with a capture group" },
+					)
+					.default("\\[key:\\s*([^\\]]+?)\\s*\\]"),
+				/**
+				 * link whole harvest projects or tasks to a key, by id
+				 */
+				harvest: z
+					.array(
+						z.object({
+							key: z.string(),
+							projectId: z.number().optional(),
+							taskId: z.number().optional(),
+						}),
+					)
+					.default([]),
+			})
+			.prefault({}),
+		duplicates: z
+			.object({
+				/**
+				 * people property on task cards whose members get mentioned when their
+				 * card is flagged as a duplicate
+				 */
+				assigneeProperty: z.string().optional(),
+			})
+			.prefault({}),
+		autoCreate: z
+			.object({
+				/**
+				 * glob patterns for clients where a missing card should be created rather
+				 * than dropping the hours
+				 */
+				clients: z.array(z.string()).default([]),
+				/**
+				 * select property to tag created cards with, for triage
+				 */
+				tag: z
+					.object({
+						property: z.string(),
+						value: z.string().default("Created by sync"),
+					})
+					.optional(),
+			})
+			.prefault({}),
+		clientTotals: z
+			.object({
+				/**
+				 * number properties on client pages for the client's hours: every hour,
+				 * hours that count towards a card, and hours that matched no card
+				 */
+				total: z.string().optional(),
+				matched: z.string().optional(),
+				unmatched: z.string().optional(),
+			})
+			.prefault({}),
+		windows: z
+			.object({
+				/**
+				 * number properties on task cards for hours in a recent window, either the
+				 * last n days (including today) or the current calendar week/month
+				 */
+				properties: z
+					.array(
+						z.union([
+							z.object({
+								property: z.string(),
+								days: z.number().int().positive(),
+							}),
+							z.object({
+								property: z.string(),
+								period: z.enum(["week", "month"]),
+							}),
+						]),
+					)
+					.default([]),
+				/**
+				 * date property on task cards for the most recent day with tracked time
+				 */
+				lastTracked: z.string().optional(),
+				weekStartsOn: z.enum(["monday", "sunday"]).default("monday"),
+			})
+			.prefault({}),
+		budget: z
+			.object({
+				/**
+				 * percentages of a card's estimate that trigger a slack alert, once each
+				 */
+				thresholds: z.array(z.number().positive()).default([80, 100]),
+			})
+			.prefault({}),
+		contributors: z
+			.object({
+				/**
+				 * property on task cards to write the per-person hours breakdown to
+				 */
+				property: z.string().optional(),
+				/**
+				 * "text" writes rich text like "Alex 4.5h · Sam 2h", "multiSelect" writes
+				 * each contributor as an option
+				 */
+				format: z.enum(["text", "multiSelect"]).default("text"),
+			})
+			.prefault({}),
+	})
+	/**
+	 * without the hours property, change detection reads the hours back from the
+	 * start of the "Time Spent" text, which only works if the templates put them there
+	 */
+	.refine(
+		({ properties, timeSpent }) =>
+			properties.hours !== undefined ||
+			[timeSpent.realtime, timeSpent.bulk].every((template) => {
+				const first = template[0];
+				return (
+					first !== undefined &&
+					"text" in first &&
+					/^\{\{\s*hours\s*\}\}/.test(first.text)
+				);
+			}),
+		{
+			message:
+				"timeSpent templates must start with a {{hours}} text segment unless properties.hours is set",
+			path: ["timeSpent"],
+		},
+	);
+export type Config = z.infer<typeof configSchema>;
+
+const configPath = Bun.env.SYNC_CONFIG || "sync.config.json";
+const configFile = Bun.file(configPath);
+
+const parsed = configSchema.safeParse(
+	(await configFile.exists()) ? await configFile.json() : {},
+);
+if (!parsed.success) {
+	throw new Error(
+		`Invalid config in ${configPath}:\n${z.prettifyError(parsed.error)}`,
+	);
+}
+
+export const config: Config = parsed.data;
@@ -0,0 +1,104 @@
+import { z } from "zod";
+import { config } from "./config";
+import type { LedgerEntry } from "./ledger";
+import { round } from "./util";
+
+/**
+ * hours per harvest user, for the per-person breakdown on task cards
+ */
+export type Contributors = Record<string, number>;
+
+export const getContributors = (entries: LedgerEntry[]) => {
+	const contributors: Contributors = {};
+	for (const entry of entries) {
+		contributors[entry.user.name] =
+			(contributors[entry.user.name] ?? 0) + entry.hours;
+	}
+	return contributors;
+};
+
+/**
+ * combine breakdowns, the same way child hours roll up into their parent
+ */
+export const mergeContributors = (...breakdowns: Contributors[]) => {
+	const merged: Contributors = {};
+	for (const breakdown of breakdowns) {
+		for (const [person, hours] of Object.entries(breakdown)) {
+			merged[person] = (merged[person] ?? 0) + hours;
+		}
+	}
+	return merged;
+};
+
+/**
+ * most hours first, skipping anyone whose hours round to nothing
+ */
+const ranked = (contributors: Contributors) =>
+	Object.entries(contributors)
+		.map(([person, hours]) => [person, round(hours)] as const)
+		.filter(([, hours]) => hours > 0)
+		.sort(([a, aHours], [b, bHours]) => bHours - aHours || a.localeCompare(b));
+
+/**
+ * notion doesn't allow commas in select options
+ */
+const optionName = (person: string) => person.replaceAll(",", "");
+
+const formatText = (contributors: Contributors) =>
+	ranked(contributors)
+		.map(([person, hours]) => `${person} ${hours}h`)
+		.join(" · ");
+
+const formatOptions = (contributors: Contributors) =>
+	ranked(contributors).map(([person]) => optionName(person));
+
+/**
+ * the property value to write, or undefined when the breakdown isn't configured
+ */
+export const contributorsProperty = (contributors: Contributors) => {
+	const { property, format } = config.contributors;
+	if (!property) return undefined;
+
+	return {
+		[property]:
+			format === "text"
+				? { rich_text: [{ text: { content: formatText(contributors) } }] }
+				: {
+						multi_select: formatOptions(contributors).map((name) => ({
+							name,
+						})),
+					},
+	};
+};
+
+/**
+ * whether the breakdown on a card differs from what we'd write
+ */
+export const contributorsChanged = (
+	card: unknown,
+	contributors: Contributors,
+) => {
+	const { property, format } = config.contributors;
+	if (!property) return false;
+
+	const value = z
+		.object({
+			properties: z.record(
+				z.string(),
+				z.object({
+					rich_text: z.array(z.object({ plain_text: z.string() })).optional(),
+					multi_select: z.array(z.object({ name: z.string() })).optional(),
+				}),
+			),
+		})
+		.safeParse(card).data?.properties[property];
+
+	if (format === "text") {
+		const previous = value?.rich_text?.map((t) => t.plain_text).join("") ?? "";
+		return previous.trim() !== formatText(contributors);
+	}
+
+	const previous = (value?.multi_select ?? []).map((o) => o.name).sort();
+	const next = formatOptions(contributors).sort();
+	return previous.join("\n") !== next.join("\n");
+};
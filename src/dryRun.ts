@@ -0,0 +1,53 @@
+/**
+ * dry run mode: the full update computation runs, but notion writes are recorded
+ * here instead of being sent, so the effect of a config change can be checked first
+ */
+
+type DryRunRow = {
+	card: string;
+	notionId: string;
+	oldTimeSpent: string;
+	newHours: number | null;
+	localHours: number | null;
+	childHours: number | null;
+	comment?: string;
+};
+
+let enabled = false;
+const rows = new Map<string, DryRunRow>();
+
+export const enableDryRun = () => {
+	enabled = true;
+};
+
+export const isDryRun = () => enabled;
+
+/**
+ * record a write we would have made. later writes to the same card replace earlier ones
+ */
+export const recordDryRunWrite = (row: DryRunRow) => {
+	rows.set(row.notionId, row);
+};
+
+/**
+ * print every intended write as a table, and optionally save it as json
+ */
+export const reportDryRun = async (jsonPath?: string) => {
+	const report = [...rows.values()].sort((a, b) =>
+		a.card.localeCompare(b.card),
+	);
+
+	if (report.length === 0) {
+		console.log("dry run complete: no cards would change");
+	} else {
+		console.log(`dry run complete: ${report.length} cards would change`);
+		console.table(report);
+	}
+
+	if (jsonPath) {
+		await Bun.write(jsonPath, JSON.stringify(report, null, "\t"));
+		console.log(`report saved to ${jsonPath}`);
+	}
+
+	return report;
+};
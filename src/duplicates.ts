@@ -0,0 +1,121 @@
+import { config } from "./config";
+import type { UpdateType } from "./limits";
+import { logMessage, notifySlack, warn } from "./logging";
+import { queryDatabase, sendError } from "./notion";
+import {
+	type Card,
+	cardSchema,
+	clientSchema,
+	type NotionClient,
+	readPeopleIds,
+} from "./schema";
+import { normalizeTaskName } from "./util";
+
+export type DuplicateGroup = {
+	client: NotionClient;
+	cards: Card[];
+};
+
+/**
+ * walk the whole task database and group cards that the sync can't tell apart:
+ * same client, and names that match under `taskNamesMatch`
+ */
+export const findDuplicateCards = async (
+	updateType: UpdateType,
+): Promise<DuplicateGroup[]> => {
+	const clients = new Map(
+		(await queryDatabase({ type: "client", updateType })).results
+			.map((client) => clientSchema.safeParse(client).data)
+			.filter((client) => client !== undefined)
+			.map((client) => [client.id, client]),
+	);
+
+	const cards = (await queryDatabase({ type: "task", updateType })).results
+		.map((card) => cardSchema.safeParse(card).data)
+		.filter((card) => card !== undefined);
+
+	const groups = new Map<string, DuplicateGroup>();
+	for (const card of cards) {
+		const client = clients.get(card.projectIds.at(0) ?? "");
+		const name = normalizeTaskName(card.taskName);
+		if (!client || !name) continue;
+
+		const groupKey = `${client.id}:${name}`;
+		const group = groups.get(groupKey) ?? { client, cards: [] };
+		group.cards.push(card);
+		groups.set(groupKey, group);
+	}
+
+	return [...groups.values()].filter((group) => group.cards.length > 1);
+};
+
+/**
+ * ids of the people assigned to a card, so they can be mentioned
+ */
+const getAssigneeIds = (card: unknown) =>
+	readPeopleIds(card, config.duplicates.assigneeProperty);
+
+/**
+ * leave a comment on each card in a duplicate group linking to its siblings
+ */
+export const flagDuplicates = async (
+	cards: { id: string }[],
+	updateType: UpdateType,
+) => {
+	await Promise.all(
+		cards.map(async (card) => {
+			// e.g. the integration can't comment. that shouldn't stop the caller
+			try {
+				await sendError(
+					card.id,
+					{
+						siblingIds: cards.filter((c) => c.id !== card.id).map((c) => c.id),
+						assigneeIds: getAssigneeIds(card),
+					},
+					updateType,
+				);
+			} catch (e) {
+				warn(`could not flag ${card.id} as a duplicate`, e, updateType, {
+					everyUpdateType: true,
+				});
+			}
+		}),
+	);
+};
+
+const auditInterval = 6 * 60 * 60 * 1000;
+
+/**
+ * periodically look for duplicate cards across the whole task database, rather than
+ * waiting for a harvest entry to happen to hit one
+ */
+export const runScheduledDuplicateAudit = async () => {
+	try {
+		logMessage("AUDIT", "Auditing task database for duplicate cards");
+
+		const groups = await findDuplicateCards("background");
+		for (const group of groups) {
+			await flagDuplicates(group.cards, "background");
+		}
+
+		logMessage("AUDIT", `Found ${groups.length} duplicate groups`);
+
+		if (groups.length > 0) {
+			await notifySlack(
+				[
+					`Duplicate card audit: ${groups.length} group(s) of cards share a name. Each card has a comment linking its duplicates.`,
+					...groups.map(
+						(group) =>
+							`• [${group.client.name}] "${group.cards[0]?.taskName}" × ${group.cards.length}`,
+					),
+				].join("\n"),
+			);
+		}
+	} catch (e) {
+		warn("duplicate card audit failed", e, "background", {
+			everyUpdateType: true,
+		});
+	} finally {
+		setTimeout(runScheduledDuplicateAudit, auditInterval);
+	}
+};
@@ -0,0 +1,172 @@
+import { logMessage } from "./logging";
+
+/**
+ * fair scheduling for the rate limited queues in limits.ts.
+ *
+ * strict priority lets a busy realtime loop keep bulk and background work waiting
+ * indefinitely. here each update type waits in its own lane, and the next task is
+ * picked by:
+ *
+ * 1. minimum share: a lane with work waiting that got less than its share of recent
+ *    dispatches goes first
+ * 2. aging: otherwise the highest priority wins, where every AGING_STEP spent
+ *    waiting adds 1 to a task's priority
+ *
+ * the queues in limits.ts still handle the pacing, this only decides what runs next
+ */
+
+const AGING_STEP = 15 * 1000;
+/**
+ * how many recent dispatches the minimum shares are measured over
+ */
+const SHARE_WINDOW = 50;
+
+type Waiting<T> = { task: T; enqueuedAt: number };
+
+type LaneStats = {
+	served: number;
+	totalWaitMs: number;
+	maxWaitMs: number;
+};
+
+type FairQueue<L extends string> = {
+	name: string;
+	depth: (lane: L) => number;
+	oldestWaitMs: (lane: L) => number;
+	stats: Record<L, LaneStats>;
+};
+
+const allQueues: FairQueue<string>[] = [];
+
+export const createFairQueue = <T, L extends string>(
+	name: string,
+	{
+		priority,
+		minShare,
+	}: {
+		priority: Record<L, number>;
+		/**
+		 * fraction of recent dispatches each lane is guaranteed while it has work
+		 */
+		minShare: Record<L, number>;
+	},
+) => {
+	const laneNames = Object.keys(priority) as L[];
+	const lanes = Object.fromEntries(
+		laneNames.map((lane) => [lane, [] as Waiting<T>[]]),
+	) as Record<L, Waiting<T>[]>;
+	const stats = Object.fromEntries(
+		laneNames.map((lane) => [
+			lane,
+			{ served: 0, totalWaitMs: 0, maxWaitMs: 0 } satisfies LaneStats,
+		]),
+	) as Record<L, LaneStats>;
+	const recent: L[] = [];
+
+	const add = (task: T, lane: L) => {
+		lanes[lane].push({ task, enqueuedAt: Date.now() });
+	};
+
+	const pickLane = (now: number) => {
+		const waiting = laneNames.filter((lane) => lanes[lane].length > 0);
+		if (waiting.length === 0) return undefined;
+
+		const share = (lane: L) =>
+			recent.length === 0
+				? 0
+				: recent.filter((served) => served === lane).length / recent.length;
+		const starved = waiting
+			.filter((lane) => share(lane) < minShare[lane])
+			.sort((a, b) => minShare[b] - share(b) - (minShare[a] - share(a)))[0];
+		if (starved) return starved;
+
+		const aged = (lane: L) =>
+			priority[lane] + (now - (lanes[lane][0]?.enqueuedAt ?? now)) / AGING_STEP;
+		return waiting.reduce((best, lane) =>
+			aged(lane) > aged(best) ? lane : best,
+		);
+	};
+
+	/**
+	 * take the next task to run, if any
+	 */
+	const next = () => {
+		const now = Date.now();
+		const lane = pickLane(now);
+		if (!lane) return undefined;
+
+		const waiting = lanes[lane].shift();
+		if (!waiting) return undefined;
+
+		recent.push(lane);
+		if (recent.length > SHARE_WINDOW) recent.shift();
+
+		const waitMs = now - waiting.enqueuedAt;
+		stats[lane].served += 1;
+		stats[lane].totalWaitMs += waitMs;
+		stats[lane].maxWaitMs = Math.max(stats[lane].maxWaitMs, waitMs);
+
+		return waiting.task;
+	};
+
+	allQueues.push({
+		name,
+		depth: (lane) => lanes[lane as L]?.length ?? 0,
+		oldestWaitMs: (lane) => {
+			const oldest = lanes[lane as L]?.[0];
+			return oldest ? Date.now() - oldest.enqueuedAt : 0;
+		},
+		stats: stats as Record<string, LaneStats>,
+	});
+
+	return { add, next };
+};
+
+/**
+ * depth and wait times per update type, for every fair queue
+ */
+export const getQueueStats = () =>
+	allQueues.map((queue) => ({
+		queue: queue.name,
+		lanes: Object.fromEntries(
+			Object.entries(queue.stats).map(([lane, stats]) => [
+				lane,
+				{
+					depth: queue.depth(lane),
+					oldestWaitMs: queue.oldestWaitMs(lane),
+					served: stats.served,
+					avgWaitMs:
+						stats.served === 0
+							? 0
+							: Math.round(stats.totalWaitMs / stats.served),
+					maxWaitMs: stats.maxWaitMs,
+				},
+			]),
+		),
+	}));
+
+const STATS_INTERVAL = 10 * 60 * 1000;
+
+/**
+ * log queue depth and wait times every few minutes, e.g. to check bulk work is
+ * getting through on busy days
+ */
+export const startQueueStatsLog = () => {
+	setInterval(() => {
+		for (const { queue, lanes } of getQueueStats()) {
+			const summary = Object.entries(lanes)
+				.filter(([, lane]) => lane.served > 0 || lane.depth > 0)
+				.map(
+					([type, lane]) =>
+						`${type} ${lane.depth} waiting (oldest ${Math.round(
+							lane.oldestWaitMs / 1000,
+						)}s), ${lane.served} served (avg wait ${Math.round(
+							lane.avgWaitMs / 1000,
+						)}s, max ${Math.round(lane.maxWaitMs / 1000)}s)`,
+				);
+			if (summary.length > 0) {
+				logMessage("QUEUE", `${queue}: ${summary.join(" · ")}`);
+			}
+		}
+	}, STATS_INTERVAL);
+};
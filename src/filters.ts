@@ -0,0 +1,45 @@
+import { minimatch } from "minimatch";
+import { config } from "./config";
+import type { LedgerEntry } from "./ledger";
+
+type FilterRule = typeof config.filters.include;
+
+/**
+ * names are matched as flat strings, not paths. minimatch treats "/" as a separator
+ * that `*` can't cross, so it's swapped for a character nobody types on both sides,
+ * and `dot` lets `*` match names starting with "."
+ */
+const flatten = (text: string) => text.replaceAll("/", "\uE000");
+
+const matchesAny = (value: string, patterns: string[]) =>
+	patterns.some((pattern) =>
+		minimatch(flatten(value), flatten(pattern), { nocase: true, dot: true }),
+	);
+
+const fieldsOf = (entry: LedgerEntry) =>
+	[
+		[entry.client.name, "clients"],
+		[entry.project.name, "projects"],
+		[entry.task.name, "tasks"],
+		[entry.user.name, "users"],
+	] as const satisfies [string, keyof FilterRule][];
+
+/**
+ * whether an entry should be synced at all. excluded entries are skipped by every
+ * update path and never count towards hours
+ */
+export const entryIsIncluded = (entry: LedgerEntry) => {
+	const { include, exclude } = config.filters;
+
+	return fieldsOf(entry).every(
+		([value, field]) =>
+			(include[field].length === 0 || matchesAny(value, include[field])) &&
+			!matchesAny(value, exclude[field]),
+	);
+};
+
+/**
+ * whether missing cards should be created for a client
+ */
+export const autoCreateEnabled = (clientName: string) =>
+	matchesAny(clientName, config.autoCreate.clients);
@@ -1,6 +1,7 @@
 import Harvest from "harvest";
+import { z } from "zod";
 import { harvestRateLimit, type UpdateType } from "./limits";
-import { logMessage, warn } from "./logging";
+import { withResilience } from "./resilience";
 
 const accessToken = Bun.env.HARVEST_TOKEN;
 const accountId = Bun.env.ACCOUNT_ID;
@@ -40,75 +41,95 @@ const withTimeout = <T>(
 };
 
 /**
- * retry wrapper for harvest api calls that handles timeout errors
+ * harvest calls can hang, so each attempt gets a timeout before the shared retry
+ * handling
  */
-async function withRetry<T>(
+const withRetry = <T>(
 	operation: () => Promise<T>,
 	operationName: string,
 	updateType: UpdateType,
-	maxRetries = 10,
-	baseDelay = 1000,
-): Promise<T> {
-	let lastError: unknown;
-
-	for (let attempt = 1; attempt <= maxRetries; attempt++) {
-		try {
-			return await withTimeout(operation(), TIMEOUT_MS, operationName);
-		} catch (error: unknown) {
-			lastError = error;
-
-			const isTimeoutError =
-				error instanceof Error && error.message.includes("timed out");
-
-			if (!isTimeoutError) {
-				// not a timeout error, don't retry
-				throw error;
-			}
-
-			if (attempt >= maxRetries) {
-				warn(
-					`${operationName} failed after ${maxRetries} attempts due to timeouts`,
-					error,
-					updateType,
-				);
-				throw error;
-			}
-
-			logMessage(
-				"API",
-				`${operationName} attempt ${attempt} timed out, retrying in ${baseDelay * attempt}ms...`,
-			);
+) =>
+	withResilience(
+		"harvest",
+		async () => {
+			// a slot per attempt, so retries are rate limited too
+			await harvestRateLimit(updateType);
+			return withTimeout(operation(), TIMEOUT_MS, operationName);
+		},
+		operationName,
+		updateType,
+	);
 
-			await new Promise((resolve) => setTimeout(resolve, baseDelay * attempt));
-		}
-	}
+type TimeEntry = Awaited<
+	ReturnType<typeof harvest.timeEntries.list>
+>["time_entries"][number];
 
-	throw lastError;
-}
+// the harvest typings leave out the pagination fields, so check them ourselves
+const paginationSchema = z.object({
+	next_page: z.number().nullable(),
+});
 
 /**
  * list time entries with optional filters
+ *
+ * harvest paginates results, so this follows `next_page` until every page has been
+ * fetched. each page spends its own rate limit token.
  */
 export const listTimeEntries = async (
 	options: {
 		updated_since?: string;
 		is_running?: boolean;
 		client_id?: number;
+		/**
+		 * spent date range, as YYYY-MM-DD
+		 */
+		from?: string;
+		to?: string;
 	},
 	updateType: UpdateType,
-) => {
-	await harvestRateLimit(updateType);
-	return withRetry(
-		() => harvest.timeEntries.list(options),
-		`listTimeEntries(${JSON.stringify(options)})`,
-		updateType,
-	);
+): Promise<TimeEntry[]> => {
+	const entries: TimeEntry[] = [];
+	let page: number | null = 1;
+
+	while (page !== null) {
+		const pageNumber: number = page;
+		const response = await withRetry(
+			() => harvest.timeEntries.list({ ...options, page: pageNumber }),
+			`listTimeEntries(${JSON.stringify(options)}, page ${pageNumber})`,
+			updateType,
+		);
+
+		entries.push(...response.time_entries);
+		page = paginationSchema.parse(response).next_page;
+	}
+
+	return entries;
+};
+
+const notFoundSchema = z.object({ statusCode: z.literal(404) });
+
+/**
+ * a single time entry, or null if harvest says it doesn't exist
+ */
+export const getTimeEntry = async (
+	id: number,
+	updateType: UpdateType,
+): Promise<unknown> => {
+	try {
+		return await withRetry(
+			() => harvest.timeEntries.get(id),
+			`getTimeEntry(${id})`,
+			updateType,
+		);
+	} catch (error: unknown) {
+		if (notFoundSchema.safeParse(error).success) return null;
+		throw error;
+	}
 };
 
 /**
  * list all clients
  */
 export const listClients = async (updateType: UpdateType) => {
-	await harvestRateLimit(updateType);
 	return withRetry(() => harvest.clients.list(), "listClients()", updateType);
 };
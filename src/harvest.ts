@@ -1,40 +1,95 @@
-import Cache, { SECOND } from "better-memory-cache";
-import { z } from "zod";
-import { listClients, listTimeEntries } from "./harvest-api";
+import { updateClientPages } from "./clientTotals";
+import { config } from "./config";
+import { runScheduledDuplicateAudit } from "./duplicates";
+import { startQueueStatsLog } from "./fairQueue";
+import { entryIsIncluded } from "./filters";
+import { getTimeEntry, listTimeEntries } from "./harvest-api";
 import { sendHeartbeat } from "./heartbeat";
-import type { UpdateType } from "./limits";
-import { logMessage } from "./logging";
+import {
+	clearUnmatched,
+	getClientEntries,
+	getEntry,
+	getEntryCards,
+	getEntryIds,
+	getMeta,
+	hydrateLedger,
+	type LedgerEntry,
+	markUnmatched,
+	recordEntries,
+	removeEntries,
+	setEntryCard,
+	setMeta,
+	setSyncedThrough,
+} from "./ledger";
+import { startTokenStatusLog, type UpdateType } from "./limits";
+import { getCardMatcher, getEntryKey } from "./linking";
+import { logMessage, warn } from "./logging";
 import { NotionCard } from "./NotionCard";
-import { clientNamesMatch, taskNamesMatch } from "./util";
+import { queryDatabase } from "./notion";
+import { startScheduler } from "./scheduler";
+import { scheduleUnmatchedDigest } from "./unmatched";
+import { round } from "./util";
+import { today } from "./windows";
 
-const timeEntrySchema = z.object({
-	client: z.object({ name: z.string() }),
-	hours: z.number(),
-	notes: z.string(),
-});
+/**
+ * entries without notes can't match a card, and filtered entries aren't tracked in notion
+ */
+export const shouldSync = (entry: LedgerEntry) =>
+	entry.notes !== "" && entryIsIncluded(entry);
 
-const processBulkUpdate = async (
-	entries: Array<{ client: { name: string }; hours: number; notes: string }>,
-) => {
+/**
+ * remember which card an entry counted towards, and whether it should have matched
+ * one but didn't
+ */
+const recordMatch = (entry: LedgerEntry, card: NotionCard | null) => {
+	setEntryCard(entry.id, card?.id);
+	if (card || !shouldSync(entry)) clearUnmatched(entry.id);
+	else markUnmatched(entry.id);
+};
+
+/**
+ * find the card an entry counts towards and remember the match
+ */
+const matchEntry = async (entry: LedgerEntry, updateType: UpdateType) => {
+	const card = shouldSync(entry)
+		? await NotionCard.getOrCreate(
+				{
+					name: entry.notes,
+					project: entry.client.name,
+					key: getEntryKey(entry),
+				},
+				updateType,
+			)
+		: null;
+	recordMatch(entry, card);
+	return card;
+};
+
+export const processBulkUpdate = async (entries: LedgerEntry[]) => {
 	let processed = 0;
 	const total = entries.length;
 
 	logMessage("BULK", `Starting bulk update of ${total} entries`);
 
+	// entries edited while the service was down were never seen by the realtime loop,
+	// so the card they used to count towards needs recalculating here
+	const previousCards = getEntryCards(entries.map((e) => e.id));
+
 	const chunkSize = 10;
 	for (let i = 0; i < entries.length; i += chunkSize) {
 		const chunk = entries.slice(i, i + chunkSize);
 
 		await Promise.all(
 			chunk.map(async (entry) => {
-				const card = await NotionCard.getOrCreate(
-					{
-						name: entry.notes,
-						project: entry.client.name,
-					},
-					"bulk",
-				);
-				await card?.update("bulk");
+				const card = await matchEntry(entry, "bulk");
+
+				const previousCardId = previousCards.get(entry.id);
+				const previousCard =
+					previousCardId && previousCardId !== card?.id
+						? await NotionCard.getOrCreate({ id: previousCardId }, "bulk")
+						: null;
+
+				await Promise.all([card?.update("bulk"), previousCard?.update("bulk")]);
 			}),
 		);
 
@@ -48,47 +103,237 @@ const processBulkUpdate = async (
 	);
 };
 
-const threeMonthsAgo = () => {
+export const threeMonthsAgo = () => {
 	const date = new Date();
 	date.setMonth(date.getMonth() - 3);
 	return date.toISOString();
 };
 
-const runScheduledBulkUpdate = async () => {
-	logMessage("BULK", "Running scheduled bulk update for last 3 months");
+const runScheduledBulkUpdate = async (updatedSince = threeMonthsAgo()) => {
+	logMessage("BULK", `Running scheduled bulk update since ${updatedSince}`);
 
-	const entriesRequest = await listTimeEntries(
+	const allEntries = await listTimeEntries(
 		{
-			updated_since: threeMonthsAgo(),
+			updated_since: updatedSince,
 			is_running: false,
 		},
 		"bulk",
 	);
 
-	const entries = entriesRequest.time_entries
-		.map((e) => timeEntrySchema.safeParse(e))
-		.filter((e) => e.success)
-		.map((e) => e.data)
-		.filter((c) => c.client.name !== "Underbelly")
-		.filter((c) => c.client.name !== "Underbelly (Square)");
+	// unsynced entries are kept, in case one was emptied or excluded and its old card
+	// needs recalculating
+	const entries = recordEntries(allEntries);
 
 	logMessage("BULK", `Found ${entries.length} entries from last 3 months`);
 
 	await processBulkUpdate(entries);
+	await updateClientPages("bulk");
 
 	// schedule next bulk update in 1 hour
 	logMessage("BULK", "Scheduling next bulk update in 1 hour");
-	setTimeout(runScheduledBulkUpdate, 60 * 60 * 1000);
+	setTimeout(() => runScheduledBulkUpdate(), 60 * 60 * 1000);
+};
+
+/**
+ * fill the hours number property on cards that don't have it yet, e.g. right after
+ * the property is added. updating a card with an empty number always writes
+ */
+export const runHoursBackfill = async () => {
+	const hoursProperty = config.properties.hours;
+	if (!hoursProperty) return;
+
+	const cards = await queryDatabase({
+		type: "task",
+		filter: { property: hoursProperty, number: { is_empty: true } },
+		updateType: "bulk",
+	});
+	logMessage(
+		"BULK",
+		`Backfilling "${hoursProperty}" on ${cards.results.length} cards`,
+	);
+
+	const chunkSize = 10;
+	for (let i = 0; i < cards.results.length; i += chunkSize) {
+		await Promise.all(
+			cards.results.slice(i, i + chunkSize).map(async ({ id }) => {
+				const card = await NotionCard.getOrCreate({ id }, "bulk");
+				await card?.update("bulk");
+			}),
+		);
+	}
+
+	logMessage("BULK", `Backfill of "${hoursProperty}" complete`);
+};
+
+const windowCheckInterval = 60 * 60 * 1000;
+
+/**
+ * window hours go stale as days pass, even on cards that get no new entries. once a
+ * day, recompute every card that currently shows hours in a window
+ */
+const runScheduledWindowRecompute = async () => {
+	const date = today();
+	const { properties } = config.windows;
+
+	try {
+		if (properties.length > 0 && getMeta("windows_recomputed_for") !== date) {
+			const cards = await queryDatabase({
+				type: "task",
+				filter: {
+					or: properties.map(({ property }) => ({
+						property,
+						number: { greater_than: 0 },
+					})),
+				},
+				updateType: "background",
+			});
+			logMessage(
+				"BULK",
+				`Recomputing time windows on ${cards.results.length} cards for ${date}`,
+			);
+
+			// one card failing shouldn't hold up the rest, the scheduler refreshes it later
+			const chunkSize = 10;
+			for (let i = 0; i < cards.results.length; i += chunkSize) {
+				await Promise.allSettled(
+					cards.results.slice(i, i + chunkSize).map(async ({ id }) => {
+						const card = await NotionCard.getOrCreate({ id }, "background");
+						await card?.update("background");
+					}),
+				);
+			}
+
+			setMeta("windows_recomputed_for", date);
+		}
+	} catch (e) {
+		warn("time window recompute failed", e, "background", {
+			everyUpdateType: true,
+		});
+	} finally {
+		setTimeout(runScheduledWindowRecompute, windowCheckInterval);
+	}
+};
+
+const deletionCheckInterval = 15 * 60 * 1000;
+/**
+ * how far back, by spent date, each check looks. deleting old time is rare, and
+ * listing everything harvest has ever had every 15 minutes is what the ledger is
+ * there to avoid
+ */
+const deletionCheckDays = 30;
+
+/**
+ * harvest never reports deleted entries, so compare what it still has for recent
+ * spent dates against the ledger. any card that lost an entry gets recalculated.
+ *
+ * the listing is paginated and takes a while, so an entry deleted mid-listing can
+ * shift another one across a page boundary and out of the results. an entry only
+ * counts as deleted once fetching it on its own comes back 404
+ */
+const runScheduledDeletionCheck = async () => {
+	try {
+		const startedAt = new Date().toISOString();
+		const from = new Date(Date.now() - deletionCheckDays * 24 * 60 * 60 * 1000)
+			.toISOString()
+			.slice(0, 10);
+		const knownIds = new Set(getEntryIds(startedAt, from));
+		const listed = recordEntries(await listTimeEntries({ from }, "background"));
+		const harvestIds = new Set(listed.map((e) => e.id));
+
+		// entries updated after we started listing might be newer than the listing itself
+		const missingIds = getEntryIds(startedAt, from).filter(
+			(id) => !harvestIds.has(id),
+		);
+		const removedIds: number[] = [];
+		for (const id of missingIds) {
+			const entry = await getTimeEntry(id, "background");
+			if (entry) recordEntries([entry]);
+			else removedIds.push(id);
+		}
+
+		const removedEntries = removedIds
+			.map((id) => getEntry(id))
+			.filter((e) => e !== undefined);
+		const previousCards = getEntryCards(removedIds);
+		removeEntries(removedIds);
+
+		const removedFrom = await Promise.all(
+			removedEntries.map(async (entry) => {
+				logMessage(
+					"WRITE",
+					`entry ${entry.id} ("${entry.notes}", ${entry.hours}h by ${entry.user.name}) was deleted from [${entry.client.name}]`,
+				);
+
+				const cardId = previousCards.get(entry.id);
+				if (cardId) return NotionCard.getOrCreate({ id: cardId }, "background");
+				if (!shouldSync(entry)) return null;
+				return NotionCard.find(
+					{
+						name: entry.notes,
+						project: entry.client.name,
+						key: getEntryKey(entry),
+					},
+					"background",
+				);
+			}),
+		);
+
+		// entries the ledger didn't have, e.g. ones the realtime loop missed while the
+		// service was down. their cards need recalculating too
+		const newEntries = listed.filter((e) => !knownIds.has(e.id));
+		const addedTo = await Promise.all(
+			newEntries.map((entry) => matchEntry(entry, "background")),
+		);
+
+		await Promise.all(
+			[...new Set([...removedFrom, ...addedTo])].map((card) =>
+				card?.update("background"),
+			),
+		);
+
+		const changedClients = [...removedEntries, ...newEntries].map(
+			(e) => e.client.name,
+		);
+		if (changedClients.length > 0) {
+			await updateClientPages("background", [...new Set(changedClients)]);
+		}
+	} catch (e) {
+		warn("deleted entry check failed", e, "background", {
+			everyUpdateType: true,
+		});
+	} finally {
+		setTimeout(runScheduledDeletionCheck, deletionCheckInterval);
+	}
 };
 
 const interval = 2 * 1000;
 let lastCheck: string | undefined;
 
-export const startWatching = () => {
+export const startWatching = async () => {
+	// hour totals come from the ledger, so it needs to be current before anything updates
+	const { startedAt, syncedThrough } = await hydrateLedger("bulk");
+	lastCheck = startedAt;
 	// kick off bulk update in background (don't await - priority system handles ordering)
-	runScheduledBulkUpdate();
+	// the first pass reaches back to where the last run left off, so entries edited
+	// while the service was down get matched and the cards they left recalculated
+	runScheduledBulkUpdate(
+		syncedThrough && syncedThrough < threeMonthsAgo()
+			? syncedThrough
+			: undefined,
+	);
+	// the cli runs the backfill itself and wants to see it fail, so it's caught here
+	runHoursBackfill().catch((e) =>
+		warn("hours backfill failed", e, "bulk", { everyUpdateType: true }),
+	);
+	runScheduledDuplicateAudit();
+	scheduleUnmatchedDigest();
+	runScheduledWindowRecompute();
+	startScheduler();
+	startQueueStatsLog();
+	startTokenStatusLog();
+	// a full listing is expensive, so let startup settle before the first one
+	setTimeout(runScheduledDeletionCheck, deletionCheckInterval);
 	// start realtime loop immediately
-	lastCheck = new Date().toISOString();
 	logMessage("LOOP", "Starting realtime watch loop");
 	realtimeLoop();
 };
@@ -97,31 +342,29 @@ const realtimeLoop = async () => {
 	const waiting = new Promise((resolve) => setTimeout(resolve, interval));
 
 	const checkTime = lastCheck;
-	lastCheck = new Date(Date.now() - interval).toISOString();
+	const nextCheck = new Date(Date.now() - interval).toISOString();
+	lastCheck = nextCheck;
 
-	const updatedEntriesRequest = await listTimeEntries(
+	const updatedEntries = await listTimeEntries(
 		{
 			updated_since: checkTime,
 			is_running: false,
 		},
 		"realtime",
 	);
-	const runningEntriesRequest = await listTimeEntries(
+	const runningEntries = await listTimeEntries(
 		{
 			is_running: true,
 		},
 		"realtime",
 	);
 
-	const entries = [
-		...updatedEntriesRequest.time_entries,
-		...runningEntriesRequest.time_entries,
-	]
-		.map((e) => timeEntrySchema.safeParse(e))
-		.filter((e) => e.success)
-		.map((e) => e.data)
-		.filter((c) => c.client.name !== "Underbelly")
-		.filter((c) => c.client.name !== "Underbelly (Square)");
+	const fetchedEntries = [...updatedEntries, ...runningEntries];
+	// look these up before recording, since recording overwrites the old notes
+	const previousCards = getEntryCards(fetchedEntries.map((e) => e.id));
+	const entries = recordEntries(fetchedEntries);
+	// everything up to the next check is in the ledger now, so a restart can resume from there
+	setSyncedThrough(nextCheck);
 
 	if (entries.length > 0) {
 		logMessage("LOOP", "found", entries.length, "entries");
@@ -129,17 +372,37 @@ const realtimeLoop = async () => {
 
 	await Promise.all(
 		entries.map(async (e) => {
-			const card = await NotionCard.getOrCreate(
-				{
-					name: e.notes,
-					project: e.client.name,
-				},
-				"realtime",
-			);
-			await card?.update("realtime");
+			const card = await matchEntry(e, "realtime");
+
+			// if the entry used to count towards a different card, that card needs recalculating too
+			const previousCardId = previousCards.get(e.id);
+			const previousCard =
+				previousCardId && previousCardId !== card?.id
+					? await NotionCard.getOrCreate({ id: previousCardId }, "realtime")
+					: null;
+			if (previousCard) {
+				logMessage(
+					"LOOP",
+					`entry ${e.id} moved off card ${previousCardId}, recalculating it`,
+				);
+			}
+
+			await Promise.all([
+				card?.update("realtime"),
+				previousCard?.update("realtime"),
+			]);
 		}),
 	);
 
+	// running timers show up on every pass, so their clients wait until the timer
+	// stops rather than being totalled every couple of seconds
+	const stoppedEntries = entries.filter((e) => !e.is_running);
+	if (stoppedEntries.length > 0) {
+		await updateClientPages("realtime", [
+			...new Set(stoppedEntries.map((e) => e.client.name)),
+		]);
+	}
+
 	// reset heartbeat after each loop iteration to prove the loop is still running
 	sendHeartbeat();
 
@@ -147,46 +410,25 @@ const realtimeLoop = async () => {
 	realtimeLoop();
 };
 
-const clientSchema = z.object({
-	clients: z.object({ id: z.number(), name: z.string() }).array(),
-});
-
-const runGetHoursByName = async ({
+/**
+ * every entry counting towards a task, answered from the local ledger
+ */
+export const getCardEntries = async ({
 	taskName,
 	clientName,
+	key,
 	updateType,
 }: {
 	clientName: string;
 	taskName: string;
+	key: string | undefined;
 	updateType: UpdateType;
 }) => {
-	const allClients = clientSchema.safeParse(await listClients(updateType)).data
-		?.clients;
-	if (!allClients) throw new Error("clients did not match expected schema");
-
-	const client = allClients.find((c) => clientNamesMatch(c.name, clientName));
-	const allEntries = await listTimeEntries(
-		{ client_id: client?.id },
-		updateType,
-	);
-	const allMatchingEntries = allEntries.time_entries.filter((e) =>
-		taskNamesMatch(e.notes, taskName),
-	);
-
-	const totalTime = allMatchingEntries.reduce((acc, e) => acc + e.hours, 0);
-
-	return Math.round(totalTime * 100) / 100;
-};
-const hoursCache = new Cache<ReturnType<typeof runGetHoursByName>>({
-	namespace: "hours",
-	expireAfterMs: SECOND * 5,
-});
-export const getHoursByName: typeof runGetHoursByName = async (options) => {
-	const cacheKey = JSON.stringify(options);
-	const cached = hoursCache.get(cacheKey);
-	if (cached) return cached;
-
-	const result = runGetHoursByName(options);
-	hoursCache.set(cacheKey, result);
-	return await result;
+	const matchesCard = await getCardMatcher({ taskName, key, updateType });
+	return getClientEntries(clientName)
+		.filter(entryIsIncluded)
+		.filter(matchesCard);
 };
+
+export const sumHours = (entries: LedgerEntry[]) =>
+	round(entries.reduce((acc, e) => acc + e.hours, 0));
@@ -0,0 +1,356 @@
+import { Database } from "bun:sqlite";
+import { z } from "zod";
+import { isDryRun } from "./dryRun";
+import { listTimeEntries } from "./harvest-api";
+import type { UpdateType } from "./limits";
+import { logMessage } from "./logging";
+import { clientNamesMatch } from "./util";
+
+/**
+ * a local copy of every harvest time entry, keyed by harvest entry id.
+ *
+ * hour totals are answered from here instead of re-downloading a client's entries
+ * every time one of its cards updates. the realtime loop keeps it current through
+ * the `updated_since` poll, and it's hydrated once on startup.
+ *
+ * the live service and the cli share this file, so in dry run mode only harvest's own
+ * data is stored. which card an entry matched, the unmatched list and the sync
+ * position are left alone, so previewing a config change can't rewrite them
+ */
+const db = new Database(Bun.env.LEDGER_PATH || "ledger.sqlite", {
+	create: true,
+});
+
+db.run("PRAGMA journal_mode = WAL");
+db.run(`
+	CREATE TABLE IF NOT EXISTS time_entries (
+		id INTEGER PRIMARY KEY,
+		client_id INTEGER NOT NULL,
+		client_name TEXT NOT NULL,
+		project_id INTEGER NOT NULL,
+		project_name TEXT NOT NULL,
+		task_id INTEGER NOT NULL,
+		task_name TEXT NOT NULL,
+		user_id INTEGER NOT NULL,
+		user_name TEXT NOT NULL,
+		notes TEXT NOT NULL,
+		hours REAL NOT NULL,
+		spent_date TEXT NOT NULL,
+		is_running INTEGER NOT NULL,
+		updated_at TEXT NOT NULL
+	)
+`);
+db.run(
+	"CREATE INDEX IF NOT EXISTS time_entries_client ON time_entries (client_name)",
+);
+db.run(`
+	CREATE TABLE IF NOT EXISTS entry_cards (
+		entry_id INTEGER PRIMARY KEY,
+		card_id TEXT NOT NULL
+	)
+`);
+db.run(`
+	CREATE TABLE IF NOT EXISTS unmatched_entries (
+		entry_id INTEGER PRIMARY KEY,
+		last_seen TEXT NOT NULL
+	)
+`);
+db.run(`
+	CREATE TABLE IF NOT EXISTS meta (
+		key TEXT PRIMARY KEY,
+		value TEXT NOT NULL
+	)
+`);
+
+export const ledgerEntrySchema = z.object({
+	id: z.number(),
+	client: z.object({ id: z.number(), name: z.string() }),
+	project: z.object({ id: z.number(), name: z.string() }),
+	task: z.object({ id: z.number(), name: z.string() }),
+	user: z.object({ id: z.number(), name: z.string() }),
+	notes: z
+		.string()
+		.nullable()
+		.transform((notes) => notes ?? ""),
+	hours: z.number(),
+	spent_date: z.string(),
+	is_running: z.boolean(),
+	updated_at: z.string(),
+});
+export type LedgerEntry = z.infer<typeof ledgerEntrySchema>;
+
+type EntryRow = {
+	id: number;
+	client_id: number;
+	client_name: string;
+	project_id: number;
+	project_name: string;
+	task_id: number;
+	task_name: string;
+	user_id: number;
+	user_name: string;
+	notes: string;
+	hours: number;
+	spent_date: string;
+	is_running: number;
+	updated_at: string;
+};
+
+const rowToEntry = (row: EntryRow): LedgerEntry => ({
+	id: row.id,
+	client: { id: row.client_id, name: row.client_name },
+	project: { id: row.project_id, name: row.project_name },
+	task: { id: row.task_id, name: row.task_name },
+	user: { id: row.user_id, name: row.user_name },
+	notes: row.notes,
+	hours: row.hours,
+	spent_date: row.spent_date,
+	is_running: row.is_running === 1,
+	updated_at: row.updated_at,
+});
+
+const upsertEntry = db.prepare(`
+	INSERT INTO time_entries (
+		id, client_id, client_name, project_id, project_name, task_id, task_name,
+		user_id, user_name, notes, hours, spent_date, is_running, updated_at
+	) VALUES (
+		$id, $clientId, $clientName, $projectId, $projectName, $taskId, $taskName,
+		$userId, $userName, $notes, $hours, $spentDate, $isRunning, $updatedAt
+	)
+	ON CONFLICT (id) DO UPDATE SET
+		client_id = excluded.client_id,
+		client_name = excluded.client_name,
+		project_id = excluded.project_id,
+		project_name = excluded.project_name,
+		task_id = excluded.task_id,
+		task_name = excluded.task_name,
+		user_id = excluded.user_id,
+		user_name = excluded.user_name,
+		notes = excluded.notes,
+		hours = excluded.hours,
+		spent_date = excluded.spent_date,
+		is_running = excluded.is_running,
+		updated_at = excluded.updated_at
+`);
+
+const upsertEntries = db.transaction((entries: LedgerEntry[]) => {
+	for (const entry of entries) {
+		upsertEntry.run({
+			$id: entry.id,
+			$clientId: entry.client.id,
+			$clientName: entry.client.name,
+			$projectId: entry.project.id,
+			$projectName: entry.project.name,
+			$taskId: entry.task.id,
+			$taskName: entry.task.name,
+			$userId: entry.user.id,
+			$userName: entry.user.name,
+			$notes: entry.notes,
+			$hours: entry.hours,
+			$spentDate: entry.spent_date,
+			$isRunning: entry.is_running ? 1 : 0,
+			$updatedAt: entry.updated_at,
+		});
+	}
+});
+
+/**
+ * validate raw harvest entries and store them in the ledger.
+ * returns the entries that were stored
+ */
+export const recordEntries = (rawEntries: unknown[]) => {
+	const entries = rawEntries
+		.map((e) => ledgerEntrySchema.safeParse(e))
+		.filter((e) => e.success)
+		.map((e) => e.data);
+
+	upsertEntries(entries);
+	return entries;
+};
+
+/**
+ * all entries for harvest clients matching the given name
+ */
+export const getClientEntries = (clientName: string) => {
+	const clientNames = db
+		.query<{ client_name: string }, []>(
+			"SELECT DISTINCT client_name FROM time_entries",
+		)
+		.all()
+		.map((row) => row.client_name)
+		.filter((name) => clientNamesMatch(name, clientName));
+
+	if (clientNames.length === 0) return [];
+
+	return db
+		.query<EntryRow, string[]>(
+			`SELECT * FROM time_entries WHERE client_name IN (${clientNames
+				.map(() => "?")
+				.join(", ")})`,
+		)
+		.all(...clientNames)
+		.map(rowToEntry);
+};
+
+/**
+ * every entry harvest last told us was updated after the given time
+ */
+export const getEntriesUpdatedSince = (updatedSince: string) =>
+	db
+		.query<EntryRow, [string]>(
+			"SELECT * FROM time_entries WHERE updated_at >= ?",
+		)
+		.all(updatedSince)
+		.map(rowToEntry);
+
+export const getEntry = (entryId: number) => {
+	const row = db
+		.query<EntryRow, [number]>("SELECT * FROM time_entries WHERE id = ?")
+		.get(entryId);
+	return row ? rowToEntry(row) : undefined;
+};
+
+/**
+ * ids of every entry spent on or after `spentFrom` (YYYY-MM-DD) that harvest last
+ * told us was updated before the given time
+ */
+export const getEntryIds = (updatedBefore: string, spentFrom: string) =>
+	db
+		.query<{ id: number }, [string, string]>(
+			"SELECT id FROM time_entries WHERE updated_at < ? AND spent_date >= ?",
+		)
+		.all(updatedBefore, spentFrom)
+		.map((row) => row.id);
+
+/**
+ * forget entries that were deleted in harvest
+ */
+const deleteEntries = db.transaction((entryIds: number[]) => {
+	for (const entryId of entryIds) {
+		db.run("DELETE FROM time_entries WHERE id = ?", [entryId]);
+		db.run("DELETE FROM entry_cards WHERE entry_id = ?", [entryId]);
+		db.run("DELETE FROM unmatched_entries WHERE entry_id = ?", [entryId]);
+	}
+});
+
+export const removeEntries = (entryIds: number[]) => {
+	if (isDryRun()) return;
+	deleteEntries(entryIds);
+};
+
+/**
+ * which notion card each entry was last counted towards, so when an entry moves to
+ * a different card we know which card it left
+ */
+export const getEntryCards = (entryIds: number[]) => {
+	const cards = new Map<number, string>();
+	if (entryIds.length === 0) return cards;
+
+	const rows = db
+		.query<{ entry_id: number; card_id: string }, number[]>(
+			`SELECT entry_id, card_id FROM entry_cards WHERE entry_id IN (${entryIds
+				.map(() => "?")
+				.join(", ")})`,
+		)
+		.all(...entryIds);
+	for (const row of rows) cards.set(row.entry_id, row.card_id);
+
+	return cards;
+};
+
+export const setEntryCard = (entryId: number, cardId: string | undefined) => {
+	if (isDryRun()) return;
+	if (cardId) {
+		db.run(
+			"INSERT INTO entry_cards (entry_id, card_id) VALUES (?, ?) ON CONFLICT (entry_id) DO UPDATE SET card_id = excluded.card_id",
+			[entryId, cardId],
+		);
+	} else {
+		db.run("DELETE FROM entry_cards WHERE entry_id = ?", [entryId]);
+	}
+};
+
+/**
+ * entries that should have matched a card but didn't, for the unmatched digest
+ */
+export const markUnmatched = (entryId: number) => {
+	if (isDryRun()) return;
+	db.run(
+		"INSERT INTO unmatched_entries (entry_id, last_seen) VALUES (?, ?) ON CONFLICT (entry_id) DO UPDATE SET last_seen = excluded.last_seen",
+		[entryId, new Date().toISOString()],
+	);
+};
+
+export const clearUnmatched = (entryId: number) => {
+	if (isDryRun()) return;
+	db.run("DELETE FROM unmatched_entries WHERE entry_id = ?", [entryId]);
+};
+
+/**
+ * unmatched entries seen since the given time. older ones are dropped from the store
+ */
+export const getUnmatchedEntries = (seenSince: string) => {
+	db.run("DELETE FROM unmatched_entries WHERE last_seen < ?", [seenSince]);
+
+	return db
+		.query<EntryRow, []>(
+			"SELECT time_entries.* FROM unmatched_entries JOIN time_entries ON time_entries.id = unmatched_entries.entry_id",
+		)
+		.all()
+		.map(rowToEntry);
+};
+
+/**
+ * small bits of state that should survive a restart
+ */
+export const getMeta = (key: string) =>
+	db
+		.query<{ value: string }, [string]>("SELECT value FROM meta WHERE key = ?")
+		.get(key)?.value;
+
+export const setMeta = (key: string, value: string) => {
+	if (isDryRun()) return;
+	db.run(
+		"INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value",
+		[key, value],
+	);
+};
+
+/**
+ * the timestamp we've fetched harvest updates up to, so a restart can pick up
+ * where the last run left off
+ */
+export const getSyncedThrough = () => getMeta("synced_through");
+
+export const setSyncedThrough = (timestamp: string) =>
+	setMeta("synced_through", timestamp);
+
+/**
+ * bring the ledger up to date with harvest. on the first run this downloads every
+ * entry, after that only entries updated since the last sync.
+ *
+ * returns when this sync started, and when the previous one left off, so the caller
+ * can recalculate cards for entries edited while the service was down
+ */
+export const hydrateLedger = async (updateType: UpdateType) => {
+	const syncedThrough = getSyncedThrough();
+	const startedAt = new Date().toISOString();
+
+	logMessage(
+		"LEDGER",
+		syncedThrough
+			? `hydrating ledger with entries updated since ${syncedThrough}`
+			: "hydrating ledger with every time entry",
+	);
+
+	const entries = recordEntries(
+		await listTimeEntries(
+			syncedThrough ? { updated_since: syncedThrough } : {},
+			updateType,
+		),
+	);
+	setSyncedThrough(startedAt);
+
+	logMessage("LEDGER", `stored ${entries.length} entries`);
+	return { startedAt, syncedThrough };
+};
@@ -1,125 +1,339 @@
 import { Client } from "@notionhq/client";
 import { asyncQueue, queue } from "@tanstack/pacer";
+import { MINUTE } from "better-memory-cache";
+import { createFairQueue } from "./fairQueue";
+import { logMessage, warn } from "./logging";
+import { pacedWait, waitUntilHealthy } from "./resilience";
 
-// Initialize Notion clients
-const notionTokenA = Bun.env.NOTION_TOKEN_A || "";
-const notionTokenB = Bun.env.NOTION_TOKEN_B || "";
-const notionTokenC = Bun.env.NOTION_TOKEN_C || "";
-const notionTokenD = Bun.env.NOTION_TOKEN_D || "";
-
-if (!notionTokenA || !notionTokenB || !notionTokenC || !notionTokenD) {
-	throw new Error("Missing NOTION_TOKEN_A through NOTION_TOKEN_D credentials");
-}
-
-const notionClients = [
-	new Client({ auth: notionTokenA }),
-	new Client({ auth: notionTokenB }),
-	new Client({ auth: notionTokenC }),
-	new Client({ auth: notionTokenD }),
-];
-
-// Priority levels - higher numbers get processed first
-const PRIORITY = {
+// Priority levels - higher numbers get processed first, and waiting tasks age up
+export const PRIORITY = {
 	realtime: 10,
 	bulk: 2,
 	background: 1,
 } as const;
 export type UpdateType = keyof typeof PRIORITY;
 
+// Share of recent operations each type is guaranteed while it has work waiting,
+// so realtime can't starve bulk and background entirely (see fairQueue.ts)
+const MIN_SHARE = {
+	realtime: 0.5,
+	bulk: 0.2,
+	background: 0.1,
+} as const satisfies Record<UpdateType, number>;
+
 // Rate limiting operation wrapper
 interface NotionRateLimitTask {
 	resolve: (client: Client) => void;
-	priority: number;
 }
 
 // Rate limiting task for harvest (returns void, not client)
 interface HarvestRateLimitTask {
 	resolve: () => void;
-	priority: number;
 }
 
 interface WriteOperation {
 	operation: () => Promise<any>;
-	priority: number;
 }
 
-// Notion read rate limiters - 4 clients, each with 3 operations per second
-const notionReadQueues = notionClients.map((client) =>
-	queue<NotionRateLimitTask>(
-		async (task) => {
-			task.resolve(client);
+/**
+ * a paced queue that picks tasks fairly. pacer handles the timing, and every slot it
+ * runs takes whichever task the fair queue picks next
+ */
+const fairQueue = <T>(
+	name: string,
+	run: (task: T) => void,
+	wait: () => number,
+) => {
+	const fair = createFairQueue<T, UpdateType>(name, {
+		priority: PRIORITY,
+		minShare: MIN_SHARE,
+	});
+	const slots = queue<UpdateType>(
+		() => {
+			const task = fair.next();
+			if (task) run(task);
 		},
-		{
-			wait: 1000 / 3, // ~333ms between operations
-			getPriority: (task) => task.priority,
+		{ wait },
+	);
+
+	return (task: T, updateType: UpdateType) => {
+		fair.add(task, updateType);
+		slots(updateType);
+	};
+};
+
+/**
+ * like fairQueue, but for async tasks that run one at a time
+ */
+const fairAsyncQueue = <T>(
+	name: string,
+	run: (task: T) => Promise<void>,
+	wait: () => number,
+) => {
+	const fair = createFairQueue<T, UpdateType>(name, {
+		priority: PRIORITY,
+		minShare: MIN_SHARE,
+	});
+	const slots = asyncQueue<UpdateType>(
+		async () => {
+			const task = fair.next();
+			if (task) await run(task);
 		},
-	),
-);
+		{ concurrency: 1, wait },
+	);
 
-let queueIndex = 0;
-const getNotionReadQueue = () => {
-	const queue = notionReadQueues[queueIndex];
-	queueIndex = (queueIndex + 1) % notionReadQueues.length;
-	if (!queue) throw new Error("Queue not found");
-	return queue;
+	return (task: T, updateType: UpdateType) => {
+		fair.add(task, updateType);
+		slots(updateType);
+	};
 };
 
-// Notion write queue - concurrency 1 (only one write at a time)
-const notionWriteQueue = asyncQueue<WriteOperation>(
-	async ({ operation }) => {
-		return await operation();
-	},
-	{
-		concurrency: 1,
-		getPriority: (task) => task.priority,
-	},
-);
+/**
+ * notion tokens. any number can be configured as a comma separated NOTION_TOKENS,
+ * and the older NOTION_TOKEN_A through NOTION_TOKEN_D are still picked up.
+ *
+ * each token gets its own read and write queue. a token that's rejected (401) or
+ * keeps getting rate limited is taken out of rotation for a while, so a revoked
+ * integration leaves the sync running on the others
+ */
+const notionTokens = [
+	...(Bun.env.NOTION_TOKENS ?? "").split(","),
+	Bun.env.NOTION_TOKEN_A,
+	Bun.env.NOTION_TOKEN_B,
+	Bun.env.NOTION_TOKEN_C,
+	Bun.env.NOTION_TOKEN_D,
+]
+	.map((token) => token?.trim())
+	.filter((token) => !!token)
+	.filter((token, index, tokens) => tokens.indexOf(token) === index);
+
+if (notionTokens.length === 0) {
+	throw new Error("Missing NOTION_TOKENS credentials");
+}
+
+/**
+ * how long a rejected token sits out before we try it again
+ */
+const UNAUTHORIZED_COOLDOWN = 15 * MINUTE;
+/**
+ * rate limits in a row before a token sits out, and for how long
+ */
+const RATE_LIMIT_STRIKES = 3;
+const RATE_LIMIT_COOLDOWN = MINUTE;
+
+interface NotionToken {
+	/**
+	 * for logs, never the token itself
+	 */
+	label: string;
+	client: Client;
+	acquire: (task: NotionRateLimitTask, updateType: UpdateType) => void;
+	write: (task: WriteOperation, updateType: UpdateType) => void;
+	pendingWrites: number;
+	disabledUntil: number;
+	rateLimitStrikes: number;
+}
+
+const disableToken = (token: NotionToken, duration: number, reason: string) => {
+	const wasHealthy = token.disabledUntil <= Date.now();
+	token.disabledUntil = Date.now() + duration;
+	if (!wasHealthy) return;
+
+	const healthy = notionPool.filter((t) => t.disabledUntil <= Date.now());
+	warn(
+		`notion ${token.label} ${reason}, taking it out of rotation for ${Math.round(
+			duration / MINUTE,
+		)} minutes (${healthy.length}/${notionPool.length} tokens healthy)`,
+		undefined,
+		"realtime",
+		{ coolDownKey: `token:${token.label}:${reason}`, everyUpdateType: true },
+	);
+};
+
+/**
+ * watch every response a token gets, so its health reflects reads and writes alike
+ */
+const observeStatus = (token: NotionToken, status: number) => {
+	if (status === 401) {
+		disableToken(token, UNAUTHORIZED_COOLDOWN, "was rejected (401)");
+	} else if (status === 429) {
+		token.rateLimitStrikes += 1;
+		if (token.rateLimitStrikes >= RATE_LIMIT_STRIKES) {
+			token.rateLimitStrikes = 0;
+			disableToken(token, RATE_LIMIT_COOLDOWN, "keeps getting rate limited");
+		}
+	} else if (status < 400) {
+		token.rateLimitStrikes = 0;
+	}
+};
+
+const notionPool: NotionToken[] = notionTokens.map((auth, index) => {
+	const token: NotionToken = {
+		label: `token ${index + 1}`,
+		// retries are handled in resilience.ts, so the queues know about rate limits
+		client: new Client({
+			auth,
+			retry: false,
+			fetch: async (url, init) => {
+				const response = await fetch(url, init);
+				observeStatus(token, response.status);
+				return response;
+			},
+		}),
+		// 3 operations per second per token, shared by reads and writes
+		acquire: fairQueue<NotionRateLimitTask>(
+			`notion token ${index + 1}`,
+			(task) => task.resolve(token.client),
+			pacedWait("notion", 1000 / 3), // ~333ms between operations
+		),
+		// one write at a time per token
+		write: fairAsyncQueue<WriteOperation>(
+			`notion token ${index + 1} writes`,
+			async ({ operation }) => {
+				await operation();
+			},
+			pacedWait("notion", 0),
+		),
+		pendingWrites: 0,
+		disabledUntil: 0,
+		rateLimitStrikes: 0,
+	};
+	return token;
+});
+
+/**
+ * tokens currently in rotation. if every token is out, use whichever comes back
+ * soonest rather than stopping entirely
+ */
+const healthyTokens = () => {
+	const now = Date.now();
+	const healthy = notionPool.filter((token) => token.disabledUntil <= now);
+	if (healthy.length > 0) return healthy;
+
+	return notionPool
+		.toSorted((a, b) => a.disabledUntil - b.disabledUntil)
+		.slice(0, 1);
+};
+
+let readIndex = 0;
+const nextReadToken = () => {
+	const tokens = healthyTokens();
+	readIndex = (readIndex + 1) % tokens.length;
+	const token = tokens[readIndex];
+	if (!token) throw new Error("No notion token available");
+	return token;
+};
+
+/**
+ * the healthy token with the fewest writes waiting
+ */
+const nextWriteToken = () => {
+	const token = healthyTokens().reduce<NotionToken | undefined>(
+		(best, t) => (!best || t.pendingWrites < best.pendingWrites ? t : best),
+		undefined,
+	);
+	if (!token) throw new Error("No notion token available");
+	return token;
+};
+
+const acquireToken = (token: NotionToken, updateType: UpdateType) =>
+	new Promise<Client>((resolve) => {
+		token.acquire({ resolve }, updateType);
+	});
+
+/**
+ * token health, for logs and debugging
+ */
+const getNotionTokenStatus = () =>
+	notionPool.map((token) => ({
+		token: token.label,
+		healthy: token.disabledUntil <= Date.now(),
+		disabledUntil:
+			token.disabledUntil > Date.now()
+				? new Date(token.disabledUntil).toISOString()
+				: undefined,
+		pendingWrites: token.pendingWrites,
+	}));
+
+/**
+ * log each token's health every few minutes, next to the queue stats
+ */
+export const startTokenStatusLog = () => {
+	setInterval(() => {
+		const summary = getNotionTokenStatus().map(
+			({ token, healthy, disabledUntil, pendingWrites }) =>
+				`${token} ${healthy ? "healthy" : `out until ${disabledUntil}`}, ${pendingWrites} writes waiting`,
+		);
+		logMessage("QUEUE", `notion tokens: ${summary.join(" · ")}`);
+	}, 10 * MINUTE);
+};
 
 // Harvest rate limiter - 100 operations per 15 seconds
-const harvestReadQueue = queue<HarvestRateLimitTask>(
-	async (task) => {
-		task.resolve();
-	},
-	{
-		wait: 15_000 / 100, // 150ms between operations
-		getPriority: (task) => task.priority,
-	},
+const harvestReadQueue = fairQueue<HarvestRateLimitTask>(
+	"harvest",
+	(task) => task.resolve(),
+	pacedWait("harvest", 15_000 / 100), // 150ms between operations
 );
 
 // Exported functions
-export const notionRateLimit = (updateType: UpdateType): Promise<Client> => {
-	return new Promise<Client>((resolve) => {
-		const priority = PRIORITY[updateType];
-		const queue = getNotionReadQueue();
-		if (!queue) throw new Error("Queue not found");
-		queue({
-			resolve,
-			priority,
-		});
-	});
+export const notionRateLimit = async (
+	updateType: UpdateType,
+): Promise<Client> => {
+	await waitUntilHealthy("notion", updateType);
+	return acquireToken(nextReadToken(), updateType);
 };
 
-export const notionWriteLimit = <T>(
-	operation: () => Promise<T>,
+/**
+ * waits for a slot in a token's rate limit, then hands over its client. called once
+ * per attempt, so retries are rate limited too
+ */
+export type NotionSlot = () => Promise<Client>;
+
+/**
+ * run a write on the least busy healthy token. the operation gets a slot on that
+ * token, and should take it for every request it makes. if the token is taken out
+ * of rotation partway through (e.g. it was revoked), later slots come from a
+ * healthy token instead
+ */
+export const notionWriteLimit = async <T>(
+	operation: (slot: NotionSlot) => Promise<T>,
 	updateType: UpdateType,
 ): Promise<T> => {
-	return new Promise<T>((resolve) => {
-		notionWriteQueue({
-			operation: async () => {
-				const result = await operation();
-				resolve(result);
+	await waitUntilHealthy("notion", updateType);
+	const token = nextWriteToken();
+	token.pendingWrites += 1;
+
+	return new Promise<T>((resolve, reject) => {
+		token.write(
+			{
+				operation: async () => {
+					// a failed write is passed back to the caller, not thrown inside the queue
+					try {
+						resolve(
+							await operation(() =>
+								acquireToken(
+									token.disabledUntil > Date.now() ? nextWriteToken() : token,
+									updateType,
+								),
+							),
+						);
+					} catch (e) {
+						reject(e);
+					} finally {
+						token.pendingWrites -= 1;
+					}
+				},
 			},
-			priority: PRIORITY[updateType],
-		});
+			updateType,
+		);
 	});
 };
 
-export const harvestRateLimit = (updateType: UpdateType): Promise<void> => {
+export const harvestRateLimit = async (
+	updateType: UpdateType,
+): Promise<void> => {
+	await waitUntilHealthy("harvest", updateType);
 	return new Promise<void>((resolve) => {
-		const priority = PRIORITY[updateType];
-		harvestReadQueue({
-			resolve,
-			priority,
-		});
+		harvestReadQueue({ resolve }, updateType);
 	});
 };
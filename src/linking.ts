@@ -0,0 +1,125 @@
+import { config } from "./config";
+import type { LedgerEntry } from "./ledger";
+import type { UpdateType } from "./limits";
+import { queryDatabase } from "./notion";
+import { readRichText } from "./schema";
+import { normalizeTaskName, taskNamesMatch } from "./util";
+
+/**
+ * explicit links between harvest entries and notion cards.
+ *
+ * a card can carry a stable key in `config.linking.property`. entries that mention
+ * that key in their notes, or that belong to a harvest project/task linked to it,
+ * count towards that card instead of going through fuzzy name matching.
+ */
+
+const notesPattern = new RegExp(config.linking.notesPattern);
+
+const normalizeKey = (key: string) => key.trim().toLowerCase();
+
+/**
+ * the key an entry is explicitly linked to, if any
+ */
+export const getEntryKey = (entry: LedgerEntry) => {
+	const fromNotes = notesPattern.exec(entry.notes)?.[1];
+	if (fromNotes) return normalizeKey(fromNotes);
+
+	const fromHarvest = config.linking.harvest.find(
+		(link) =>
+			(link.projectId !== undefined || link.taskId !== undefined) &&
+			(link.projectId === undefined || link.projectId === entry.project.id) &&
+			(link.taskId === undefined || link.taskId === entry.task.id),
+	);
+	return fromHarvest ? normalizeKey(fromHarvest.key) : undefined;
+};
+
+/**
+ * entry notes without the key marker in them
+ */
+export const stripEntryKey = (notes: string) => notes.replace(notesPattern, "");
+
+/**
+ * read the key off a notion card, if linking is enabled and the card has one
+ */
+export const getCardKey = (card: unknown) => {
+	const key = readRichText(card, config.linking.property);
+	return key ? normalizeKey(key) : undefined;
+};
+
+/**
+ * every card that carries a key
+ */
+export const getKeyedCards = async (updateType: UpdateType) => {
+	const property = config.linking.property;
+	if (!property) return [];
+
+	const cards = await queryDatabase({
+		type: "task",
+		filter: { property, rich_text: { is_not_empty: true } },
+		updateType,
+	});
+
+	return cards.results;
+};
+
+/**
+ * keys that some card carries
+ */
+const getClaimedKeys = async (updateType: UpdateType) =>
+	new Set(
+		(await getKeyedCards(updateType))
+			.map(getCardKey)
+			.filter((cardKey) => cardKey !== undefined),
+	);
+
+/**
+ * build a matcher deciding which entries count towards a card.
+ *
+ * entries linked to a key some card claims only count towards that card, while
+ * entries with a key nobody claims fall back to name matching
+ */
+export const getCardMatcher = async ({
+	taskName,
+	key,
+	updateType,
+}: {
+	taskName: string;
+	key: string | undefined;
+	updateType: UpdateType;
+}) => {
+	const claimedKeys = await getClaimedKeys(updateType);
+
+	return (entry: LedgerEntry) => {
+		const entryKey = getEntryKey(entry);
+		if (key && entryKey === key) return true;
+		if (entryKey && claimedKeys.has(entryKey)) return false;
+		return taskNamesMatch(entry.notes, taskName);
+	};
+};
+
+/**
+ * the same matching for many cards at once: whether an entry counts towards any of
+ * them. names and keys are looked up rather than compared card by card, since this
+ * runs over every entry a client has
+ */
+export const getCardsMatcher = async (
+	cards: { taskName: string; key: string | undefined }[],
+	updateType: UpdateType,
+) => {
+	const claimedKeys = await getClaimedKeys(updateType);
+	const keys = new Set(
+		cards.map((card) => card.key).filter((key) => key !== undefined),
+	);
+	const names = new Set(
+		cards
+			.filter((card) => card.taskName)
+			.map((card) => normalizeTaskName(card.taskName)),
+	);
+
+	return (entry: LedgerEntry) => {
+		const entryKey = getEntryKey(entry);
+		if (entryKey && keys.has(entryKey)) return true;
+		if (entryKey && claimedKeys.has(entryKey)) return false;
+		return !!entry.notes && names.has(normalizeTaskName(entry.notes));
+	};
+};
@@ -6,7 +6,16 @@ import type { UpdateType } from "./limits";
 
 logger.setDate(() => new Date().toLocaleTimeString());
 
-type LogType = "LOOP" | "BULK" | "SKIP" | "WRITE" | "API" | "HEARTBEAT";
+type LogType =
+	| "LOOP"
+	| "BULK"
+	| "SKIP"
+	| "WRITE"
+	| "API"
+	| "HEARTBEAT"
+	| "LEDGER"
+	| "AUDIT"
+	| "QUEUE";
 
 const logMutex = new Mutex();
 
@@ -54,6 +63,9 @@ export const logMessage = async (
 			WRITE: "green",
 			API: "white",
 			HEARTBEAT: "red",
+			LEDGER: "cyan",
+			AUDIT: "magenta",
+			QUEUE: "white",
 		};
 
 		logger
@@ -70,16 +82,29 @@ export const warn = async (
 	message: string,
 	log: unknown,
 	updateType: UpdateType,
+	{
+		coolDownKey = message,
+		everyUpdateType = false,
+	}: {
+		/**
+		 * what the 5 hour cooldown is tracked by, when the message text varies
+		 */
+		coolDownKey?: string;
+		/**
+		 * post to slack for background and bulk updates too
+		 */
+		everyUpdateType?: boolean;
+	} = {},
 ) => {
 	await logMutex.runExclusive(async () => {
-		if (updateType === "realtime") {
+		if (updateType === "realtime" || everyUpdateType) {
 			logger.setLogStream(process.stderr);
 			logger.warn(message);
-			const coolDownUntil = warnCoolDown.get(message) ?? 0;
+			const coolDownUntil = warnCoolDown.get(coolDownKey) ?? 0;
 			if (coolDownUntil > Date.now()) {
 				return;
 			}
-			warnCoolDown.set(message, Date.now() + 5 * HOUR);
+			warnCoolDown.set(coolDownKey, Date.now() + 5 * HOUR);
 
 			const slackMessage = await client.chat.postMessage({
 				channel,
@@ -95,3 +120,15 @@ export const warn = async (
 		}
 	});
 };
+
+/**
+ * post a message to slack regardless of update type, for scheduled reports
+ */
+export const notifySlack = async (message: string) => {
+	await logMutex.runExclusive(async () => {
+		await client.chat.postMessage({
+			channel,
+			text: message,
+		});
+	});
+};
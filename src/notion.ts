@@ -1,9 +1,17 @@
 import type { Client } from "@notionhq/client";
-import Cache, { MINUTE } from "better-memory-cache";
+import Cache, { MINUTE, SECOND } from "better-memory-cache";
+import { percentUsedProperty } from "./budget";
+import { config } from "./config";
+import { type Contributors, contributorsProperty } from "./contributors";
+import { isDryRun, recordDryRunWrite } from "./dryRun";
 import { sendHeartbeat } from "./heartbeat";
-import type { UpdateType } from "./limits";
-import { notionRateLimit, notionWriteLimit } from "./limits";
+import type { NotionSlot, UpdateType } from "./limits";
+import { notionRateLimit, notionWriteLimit, PRIORITY } from "./limits";
 import { logMessage, warn } from "./logging";
+import { renderTimeSpent } from "./render";
+import { withResilience } from "./resilience";
+import { round } from "./util";
+import { type Windows, windowProperties } from "./windows";
 
 const clientDatabase = Bun.env.CLIENT_DATABASE || "";
 const taskDatabase = Bun.env.TASK_DATABASE || "";
@@ -13,68 +21,31 @@ if (!clientDatabase || !taskDatabase) {
 }
 
 /**
- * Retry wrapper for Notion API calls that handles timeout errors
+ * a read on the next token in rotation. every attempt takes its own rate limit
+ * slot, so retries wait their turn like everything else
  */
-async function withRetry<T>(
-	operation: () => Promise<T>,
+const notionRead = <T>(
+	operation: (notion: Client) => Promise<T>,
 	operationName: string,
 	updateType: UpdateType,
-	maxRetries = 10,
-	baseDelay = 1000,
-): Promise<T> {
-	let lastError: any;
-
-	for (let attempt = 1; attempt <= maxRetries; attempt++) {
-		try {
-			return await operation();
-		} catch (error: any) {
-			lastError = error;
-
-			// Check if this is a timeout error from the Notion client
-			const isTimeoutError =
-				error?.code === "notionhq_client_request_timeout" ||
-				error?.name === "RequestTimeoutError" ||
-				error?.message?.includes("timed out");
-
-			if (!isTimeoutError) {
-				// If it's not a timeout error, don't retry - rethrow immediately
-				throw error;
-			}
-
-			if (attempt >= maxRetries) {
-				// Last attempt failed, log and rethrow
-				warn(
-					`${operationName} failed after ${maxRetries} attempts due to timeouts`,
-					error,
-					updateType,
-				);
-				throw error;
-			}
-
-			logMessage(
-				"API",
-				`${operationName} attempt ${attempt} timed out, retrying in ${baseDelay * attempt}ms...`,
-			);
-
-			await new Promise((resolve) => setTimeout(resolve, baseDelay * attempt));
-		}
-	}
-
-	throw lastError;
-}
+) =>
+	withResilience(
+		"notion",
+		async () => operation(await notionRateLimit(updateType)),
+		operationName,
+		updateType,
+	);
 
 /**
  * page queries
  */
 
-const runGetPage = async (notionId: string, updateType: UpdateType) => {
-	const notion = await notionRateLimit(updateType);
-	return withRetry(
-		() => notion.pages.retrieve({ page_id: notionId }),
+const runGetPage = async (notionId: string, updateType: UpdateType) =>
+	notionRead(
+		(notion) => notion.pages.retrieve({ page_id: notionId }),
 		`getPage(${notionId})`,
 		updateType,
 	);
-};
 const pageCache = new Cache<ReturnType<typeof runGetPage>>({
 	namespace: "page",
 	expireAfterMs: MINUTE,
@@ -89,6 +60,10 @@ export const getPage: typeof runGetPage = async (notionId, updateType) => {
 	return await result;
 };
 
+type QueryResult = Awaited<
+	ReturnType<typeof Client.prototype.dataSources.query>
+>["results"][number];
+
 /**
  * database queries
  *
@@ -111,9 +86,8 @@ const getDataSourceId = async (
 	if (cached) return cached;
 
 	const result = (async () => {
-		const notion = await notionRateLimit(updateType);
-		const dbInfo = await withRetry(
-			() => notion.databases.retrieve({ database_id: databaseId }),
+		const dbInfo = await notionRead(
+			(notion) => notion.databases.retrieve({ database_id: databaseId }),
 			`getDataSourceId(${databaseId})`,
 			updateType,
 		);
@@ -134,6 +108,30 @@ const getDataSourceId = async (
 	return result;
 };
 
+/**
+ * the property schema of a database. in sdk v5 this lives on the data source
+ * rather than on `databases.retrieve`
+ */
+export const getDatabaseProperties = async (
+	type: "client" | "task",
+	updateType: UpdateType,
+) => {
+	const databaseId = type === "client" ? clientDatabase : taskDatabase;
+	const dataSourceId = await getDataSourceId(databaseId, updateType);
+
+	const dataSource = await notionRead(
+		(notion) => notion.dataSources.retrieve({ data_source_id: dataSourceId }),
+		`getDatabaseProperties(${type})`,
+		updateType,
+	);
+
+	if (!("properties" in dataSource)) {
+		throw new Error(`Could not read the properties of the ${type} database`);
+	}
+
+	return dataSource.properties;
+};
+
 const runQueryDatabase = async ({
 	type,
 	filter,
@@ -146,16 +144,40 @@ const runQueryDatabase = async ({
 	const databaseId = type === "client" ? clientDatabase : taskDatabase;
 	const dataSourceId = await getDataSourceId(databaseId, updateType);
 
-	const notion = await notionRateLimit(updateType);
-	return withRetry(
-		() =>
-			notion.dataSources.query({
-				data_source_id: dataSourceId,
-				filter,
-			}),
-		`queryDatabase(${type})`,
-		updateType,
+	/**
+	 * notion returns at most 100 results per query, so keep following the cursor
+	 * until we've seen everything
+	 */
+	const results: QueryResult[] = [];
+	let cursor: string | undefined;
+	let pages = 0;
+
+	do {
+		const startCursor = cursor;
+		const response = await notionRead(
+			(notion) =>
+				notion.dataSources.query({
+					data_source_id: dataSourceId,
+					filter,
+					start_cursor: startCursor,
+				}),
+			`queryDatabase(${type}, page ${pages + 1})`,
+			updateType,
+		);
+
+		results.push(...response.results);
+		cursor = response.has_more
+			? (response.next_cursor ?? undefined)
+			: undefined;
+		pages += 1;
+	} while (cursor);
+
+	logMessage(
+		"API",
+		`queryDatabase(${type}) returned ${results.length} results in ${pages} page${pages === 1 ? "" : "s"}`,
 	);
+
+	return { results };
 };
 
 const databaseCache = new Cache<ReturnType<typeof runQueryDatabase>>({
@@ -177,54 +199,71 @@ export const queryDatabase: typeof runQueryDatabase = async (options) => {
  * mutations
  */
 
-const runUpdateHours = async (
-	notionId: string,
-	hours: number,
-	updateType: UpdateType,
-) => {
+export type HoursUpdate = {
+	notionId: string;
 	/**
-	 * in format 2:21pm, with no leading 0s
+	 * "[project] - task", for logs and reports
 	 */
-	const currentTime = new Date().toLocaleTimeString("en-US", {
-		hour: "numeric",
-		minute: "numeric",
-		hour12: true,
-	});
+	label: string;
+	/**
+	 * the "Time Spent" text before this update
+	 */
+	previousText: string;
+	localHours: number;
+	childHours: number;
+	/**
+	 * who last logged time on the card or its sub-tasks
+	 */
+	lastPerson?: string;
+	/**
+	 * hours per person, including sub-tasks
+	 */
+	contributors?: Contributors;
+	/**
+	 * the card's estimate in hours, for the percent used
+	 */
+	estimate?: number;
+	/**
+	 * hours in recent time windows, including sub-tasks
+	 */
+	windows?: Windows;
+};
 
-	const roundedHours = Math.round(hours * 100) / 100;
-	const notion = await notionRateLimit(updateType);
+const runUpdateHours = async (
+	slot: NotionSlot,
+	{
+		notionId,
+		localHours,
+		childHours,
+		lastPerson,
+		contributors,
+		estimate,
+		windows,
+	}: HoursUpdate,
+	updateType: UpdateType,
+) => {
+	const roundedHours = round(localHours + childHours);
+	const hoursProperty = config.properties.hours;
 
 	try {
-		const result = await withRetry(
-			() =>
-				notion.pages.update({
+		const result = await withResilience(
+			"notion",
+			async () =>
+				(await slot()).pages.update({
 					page_id: notionId,
 					properties: {
-						"Time Spent": {
-							rich_text:
-								updateType === "bulk"
-									? [
-											{
-												text: {
-													content: `${roundedHours} Hours Spent\t`,
-												},
-											},
-										]
-									: [
-											{
-												text: {
-													content: `${roundedHours} Hours Spent\t`,
-												},
-											},
-											// current time, if desired
-											{
-												type: "equation",
-												equation: {
-													expression: `^{${currentTime.toLowerCase()}}`,
-												},
-											},
-										],
+						[config.properties.timeSpent]: {
+							rich_text: renderTimeSpent(
+								{ localHours, childHours, lastPerson },
+								updateType,
+							),
 						},
+						...(hoursProperty
+							? { [hoursProperty]: { number: roundedHours } }
+							: {}),
+						...(contributors ? contributorsProperty(contributors) : {}),
+						...percentUsedProperty(roundedHours, estimate),
+						...(windows ? windowProperties(windows) : {}),
 					},
 				}),
 			`updateHours(${notionId})`,
@@ -239,37 +278,346 @@ const runUpdateHours = async (
 	}
 };
 
-export const updateHours: typeof runUpdateHours = async (
-	notionId,
-	hours,
-	updateType,
-) =>
+/**
+ * the shortest time between two writes to the same page
+ */
+const MIN_WRITE_INTERVAL = 10 * SECOND;
+
+type PendingWrite = {
+	update: HoursUpdate;
+	updateType: UpdateType;
+	promise: Promise<void>;
+};
+
+/**
+ * writes that haven't started yet, per page. a newer update replaces the pending
+ * value instead of queueing another write, so a running timer can't stack up writes
+ * with stale hours
+ */
+const pendingWrites = new Map<string, PendingWrite>();
+/**
+ * when each page was last written, and what was written
+ */
+const lastWrites = new Map<string, { at: number; key: string }>();
+
+/**
+ * everything a write puts on the page, except the timestamp
+ */
+const writeKey = (update: HoursUpdate) =>
+	JSON.stringify([
+		round(update.localHours + update.childHours),
+		update.lastPerson,
+		update.contributors,
+		update.estimate,
+		update.windows,
+	]);
+
+/**
+ * whether we just wrote these exact values. a page read that started before our
+ * write finished can still show the old values, which shouldn't cause another write
+ */
+const isRecentWrite = (notionId: string, update: HoursUpdate) => {
+	const lastWrite = lastWrites.get(notionId);
+	return (
+		lastWrite?.key === writeKey(update) && Date.now() - lastWrite.at < MINUTE
+	);
+};
+
+const coalesceHoursWrite = (update: HoursUpdate, updateType: UpdateType) => {
+	const { notionId } = update;
+
+	const pending = pendingWrites.get(notionId);
+	if (pending) {
+		pending.update = update;
+		if (PRIORITY[updateType] > PRIORITY[pending.updateType]) {
+			pending.updateType = updateType;
+		}
+		return pending.promise;
+	}
+
+	const lastWrite = lastWrites.get(notionId);
+	if (isRecentWrite(notionId, update)) return Promise.resolve();
+
+	const delay = lastWrite
+		? Math.max(0, lastWrite.at + MIN_WRITE_INTERVAL - Date.now())
+		: 0;
+
+	const entry: PendingWrite = {
+		update,
+		updateType,
+		promise: new Promise<void>((resolve) => setTimeout(resolve, delay)).then(
+			() =>
+				notionWriteLimit(async (slot) => {
+					// from here on, newer updates queue a new write
+					pendingWrites.delete(notionId);
+					if (isRecentWrite(notionId, entry.update)) return;
+
+					// marked before writing, so writes queued meanwhile keep their distance
+					lastWrites.set(notionId, {
+						at: Date.now(),
+						key: writeKey(entry.update),
+					});
+					try {
+						await runUpdateHours(slot, entry.update, entry.updateType);
+					} catch (e) {
+						lastWrites.delete(notionId);
+						throw e;
+					}
+				}, entry.updateType),
+		),
+	};
+	pendingWrites.set(notionId, entry);
+
+	return entry.promise;
+};
+
+export const updateHours = async (
+	update: HoursUpdate,
+	updateType: UpdateType,
+): Promise<void> => {
+	if (isDryRun()) {
+		recordDryRunWrite({
+			card: update.label,
+			notionId: update.notionId,
+			oldTimeSpent: update.previousText,
+			newHours: round(update.localHours + update.childHours),
+			localHours: update.localHours,
+			childHours: round(update.childHours),
+		});
+		return;
+	}
+
+	await coalesceHoursWrite(update, updateType);
+};
+
+export type ClientTotals = {
+	/**
+	 * every included harvest hour for the client
+	 */
+	total: number;
+	/**
+	 * hours on entries that count towards a task card
+	 */
+	matched: number;
+	unmatched: number;
+};
+
+/**
+ * write a client's hour totals to its page in the client database
+ */
+const runUpdateClientTotals = async (
+	slot: NotionSlot,
+	notionId: string,
+	totals: ClientTotals,
+	updateType: UpdateType,
+) => {
+	const properties = Object.fromEntries(
+		(["total", "matched", "unmatched"] as const).flatMap((field) => {
+			const property = config.clientTotals[field];
+			return property ? [[property, { number: totals[field] }]] : [];
+		}),
+	);
+
+	try {
+		const result = await withResilience(
+			"notion",
+			async () =>
+				(await slot()).pages.update({ page_id: notionId, properties }),
+			`updateClientTotals(${notionId})`,
+			updateType,
+		);
+		pageCache.set(notionId, Promise.resolve(result));
+		return result;
+	} catch (e) {
+		warn(`failed to update client totals for ${notionId}`, e, updateType);
+		throw e;
+	}
+};
+
+export const updateClientTotals = async (
+	{
+		notionId,
+		label,
+		previousTotal,
+		totals,
+	}: {
+		notionId: string;
+		label: string;
+		previousTotal: string;
+		totals: ClientTotals;
+	},
+	updateType: UpdateType,
+): Promise<void> => {
+	if (isDryRun()) {
+		recordDryRunWrite({
+			card: label,
+			notionId,
+			oldTimeSpent: previousTotal,
+			newHours: totals.total,
+			localHours: null,
+			childHours: null,
+			comment: `${totals.matched} matched, ${totals.unmatched} unmatched`,
+		});
+		return;
+	}
+
 	await notionWriteLimit(
-		() => runUpdateHours(notionId, hours, updateType),
+		(slot) => runUpdateClientTotals(slot, notionId, totals, updateType),
 		updateType,
 	);
+};
 
-const runSendError = async (taskId: string, updateType: UpdateType) => {
-	const notion = await notionRateLimit("realtime");
+/**
+ * create a task card in a client, for clients that opt in to auto creation
+ */
+type NewTaskCard = {
+	name: string;
+	clientId: string;
+	key: string | undefined;
+	updateType: UpdateType;
+};
+
+const runCreateTaskCard = async (
+	slot: NotionSlot,
+	{ name, clientId, key, updateType }: NewTaskCard,
+) => {
+	const dataSourceId = await getDataSourceId(taskDatabase, updateType);
+	const { tag } = config.autoCreate;
+	const keyProperty = config.linking.property;
 
 	try {
-		await withRetry(
-			() =>
-				notion.pages.update({
-					page_id: taskId,
+		const result = await withResilience(
+			"notion",
+			async () =>
+				(await slot()).pages.create({
+					parent: { data_source_id: dataSourceId },
 					properties: {
-						"Time Spent": {
-							rich_text: [
-								{
-									text: {
-										content:
-											"Time Error: Multiple notion cards share the same name",
-									},
-								},
-							],
+						[config.properties.taskName]: {
+							title: [{ text: { content: name } }],
 						},
+						[config.properties.project]: { relation: [{ id: clientId }] },
+						...(tag ? { [tag.property]: { select: { name: tag.value } } } : {}),
+						...(key && keyProperty
+							? { [keyProperty]: { rich_text: [{ text: { content: key } }] } }
+							: {}),
 					},
 				}),
+			`createTaskCard(${name})`,
+			updateType,
+		);
+		pageCache.set(result.id, Promise.resolve(result));
+		return result;
+	} catch (e) {
+		warn(`failed to create card "${name}" in ${clientId}`, e, updateType);
+		throw e; // Re-throw to maintain error handling behavior
+	}
+};
+
+export const createTaskCard = async (options: NewTaskCard) => {
+	if (isDryRun()) {
+		recordDryRunWrite({
+			card: options.name,
+			notionId: `new:${options.clientId}:${options.name}`,
+			oldTimeSpent: "",
+			newHours: null,
+			localHours: null,
+			childHours: null,
+			comment: "would create this card",
+		});
+		return null;
+	}
+
+	return notionWriteLimit(
+		(slot) => runCreateTaskCard(slot, options),
+		options.updateType,
+	);
+};
+
+const DUPLICATE_MARKER = "⚠️ Duplicate card:";
+
+/**
+ * whether we've already left a duplicate comment on this card naming these siblings
+ */
+const hasDuplicateComment = async (
+	slot: NotionSlot,
+	taskId: string,
+	siblingIds: string[],
+	updateType: UpdateType,
+) => {
+	const comments = await withResilience(
+		"notion",
+		async () => (await slot()).comments.list({ block_id: taskId }),
+		`listComments(${taskId})`,
+		updateType,
+	);
+
+	const normalizeId = (id: string) => id.replaceAll("-", "");
+	const siblings = new Set(siblingIds.map(normalizeId));
+
+	return comments.results.some((comment) => {
+		const text = comment.rich_text.map((t) => t.plain_text).join("");
+		if (!text.startsWith(DUPLICATE_MARKER)) return false;
+
+		const mentioned = comment.rich_text.flatMap((t) =>
+			t.type === "mention" && t.mention.type === "page"
+				? [normalizeId(t.mention.page.id)]
+				: [],
+		);
+		return (
+			mentioned.length === siblings.size &&
+			mentioned.every((id) => siblings.has(id))
+		);
+	});
+};
+
+/**
+ * flag a card that shares its name with other cards in the same client. this leaves
+ * a comment rather than touching "Time Spent", so the existing hours stay intact
+ */
+type DuplicateDetails = { siblingIds: string[]; assigneeIds: string[] };
+
+const runSendError = async (
+	slot: NotionSlot,
+	taskId: string,
+	{ siblingIds, assigneeIds }: DuplicateDetails,
+	updateType: UpdateType,
+) => {
+	try {
+		if (await hasDuplicateComment(slot, taskId, siblingIds, updateType)) {
+			return;
+		}
+
+		const separator = { text: { content: ", " } };
+		const siblings = siblingIds.flatMap((id, index) => [
+			...(index === 0 ? [] : [separator]),
+			{ mention: { page: { id } } },
+		]);
+		const assignees = assigneeIds.flatMap((id) => [
+			{ mention: { user: { id } } },
+			{ text: { content: " " } },
+		]);
+
+		await withResilience(
+			"notion",
+			async () =>
+				(await slot()).comments.create({
+					parent: { page_id: taskId },
+					rich_text: [
+						{
+							text: {
+								content: `${DUPLICATE_MARKER} the Harvest sync can't tell this card apart from `,
+							},
+						},
+						...siblings,
+						{
+							text: {
+								content:
+									". Rename or merge them so time can be tracked against the right card. ",
+							},
+						},
+						...assignees,
+					],
+				}),
 			`sendError(${taskId})`,
 			updateType,
 		);
@@ -279,5 +627,26 @@ const runSendError = async (taskId: string, updateType: UpdateType) => {
 	}
 };
 
-export const sendError: typeof runSendError = async (taskId, updateType) =>
-	notionWriteLimit(() => runSendError(taskId, updateType), updateType);
+export const sendError = async (
+	taskId: string,
+	details: DuplicateDetails,
+	updateType: UpdateType,
+) => {
+	if (isDryRun()) {
+		recordDryRunWrite({
+			card: taskId,
+			notionId: taskId,
+			oldTimeSpent: "",
+			newHours: null,
+			localHours: null,
+			childHours: null,
+			comment: `duplicate of ${details.siblingIds.join(", ")}`,
+		});
+		return;
+	}
+
+	return notionWriteLimit(
+		(slot) => runSendError(slot, taskId, details, updateType),
+		updateType,
+	);
+};
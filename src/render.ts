@@ -0,0 +1,82 @@
+import { config } from "./config";
+import type { UpdateType } from "./limits";
+import { round } from "./util";
+
+export type TemplateVariables = {
+	localHours: number;
+	childHours: number;
+	/**
+	 * the last person who logged time on this card or its sub-tasks
+	 */
+	lastPerson: string | undefined;
+};
+
+/**
+ * render the "Time Spent" rich text from the configured template.
+ *
+ * variables: {{hours}}, {{localHours}}, {{childHours}}, {{updatedAt}} (e.g. 2:21pm),
+ * {{updatedDate}} (e.g. Oct 19) and {{lastPerson}}
+ */
+export const renderTimeSpent = (
+	{ localHours, childHours, lastPerson }: TemplateVariables,
+	updateType: UpdateType,
+	now = new Date(),
+) => {
+	const { timezone, realtime, bulk } = config.timeSpent;
+
+	/**
+	 * in format 2:21pm, with no leading 0s
+	 */
+	const updatedAt = now
+		.toLocaleTimeString("en-US", {
+			hour: "numeric",
+			minute: "numeric",
+			hour12: true,
+			timeZone: timezone,
+		})
+		.replace(" ", "")
+		.toLowerCase();
+	const updatedDate = now.toLocaleDateString("en-US", {
+		month: "short",
+		day: "numeric",
+		timeZone: timezone,
+	});
+
+	const variables: Record<string, string> = {
+		hours: `${round(localHours + childHours)}`,
+		localHours: `${round(localHours)}`,
+		childHours: `${round(childHours)}`,
+		updatedAt,
+		updatedDate,
+		lastPerson: lastPerson ?? "",
+	};
+	const variablePattern = /\{\{\s*(\w+)\s*\}\}/g;
+	const fill = (text: string) =>
+		text.replaceAll(variablePattern, (match, name: string) =>
+			name in variables ? (variables[name] ?? "") : match,
+		);
+	/**
+	 * a segment whose variables all came out empty (e.g. no {{lastPerson}} yet) is
+	 * dropped, rather than writing a dangling label or an empty equation
+	 */
+	const isEmpty = (text: string) => {
+		const used = [...text.matchAll(variablePattern)].map((m) => m[1] ?? "");
+		return (
+			fill(text).trim() === "" ||
+			(used.length > 0 && used.every((name) => variables[name] === ""))
+		);
+	};
+
+	return (updateType === "bulk" ? bulk : realtime)
+		.filter((segment) =>
+			"text" in segment ? !isEmpty(segment.text) : !isEmpty(segment.equation),
+		)
+		.map((segment) =>
+			"text" in segment
+				? { type: "text" as const, text: { content: fill(segment.text) } }
+				: {
+						type: "equation" as const,
+						equation: { expression: fill(segment.equation) },
+					},
+		);
+};
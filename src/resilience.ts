@@ -0,0 +1,304 @@
+import { MINUTE, SECOND } from "better-memory-cache";
+import { z } from "zod";
+import type { UpdateType } from "./limits";
+import { logMessage, warn } from "./logging";
+
+/**
+ * shared error handling for the notion and harvest clients.
+ *
+ * - timeouts, 5xx responses and network errors are retried with jittered backoff
+ * - a 429 is retried after its `Retry-After`, and slows down that api's queues in
+ *   limits.ts so the rest of the queue doesn't run into the same limit. this only
+ *   ever sees notion's 429s: the harvest client retries its own 429s internally and
+ *   never passes them back, so harvest is only paced by its queue in limits.ts
+ * - a notion 401 is retried too. limits.ts takes the rejected token out of rotation,
+ *   so the retry goes out on another token instead of failing the update
+ * - repeated transient failures trip a circuit breaker. while it's open, background
+ *   and bulk work waits for the api to recover instead of piling on. realtime work
+ *   still goes through, and the first success closes the breaker again
+ */
+
+export type Api = "notion" | "harvest";
+
+const MAX_BACKOFF = MINUTE;
+/**
+ * consecutive transient failures before the breaker opens, and how long it stays open
+ */
+const BREAKER_THRESHOLD = 5;
+const BREAKER_OPEN_FOR = MINUTE;
+/**
+ * how long a queue stays slowed down after a 429, and the most it slows down by
+ */
+const SLOWDOWN_FOR = 5 * MINUTE;
+const MAX_SLOWDOWN = 8;
+
+type Failure = {
+	reason: string;
+	/**
+	 * rate limiting isn't a sign of an unhealthy api, so it doesn't count towards the
+	 * circuit breaker
+	 */
+	rateLimited: boolean;
+	/**
+	 * a revoked notion token says nothing about the api either
+	 */
+	tokenRejected?: boolean;
+	retryAfterMs?: number;
+};
+
+const NETWORK_ERROR_CODES = new Set([
+	"ECONNRESET",
+	"ECONNREFUSED",
+	"ECONNABORTED",
+	"ETIMEDOUT",
+	"EPIPE",
+	"EAI_AGAIN",
+	"ENOTFOUND",
+	"ENETUNREACH",
+	"ConnectionRefused",
+	"ConnectionClosed",
+]);
+
+// notion errors carry `status`/`headers`, harvest's request errors carry
+// `statusCode`/`response.headers`
+const errorSchema = z.looseObject({
+	name: z.string().optional(),
+	message: z.string().optional(),
+	code: z.string().optional(),
+	status: z.number().optional(),
+	statusCode: z.number().optional(),
+	headers: z.unknown(),
+	response: z.looseObject({ headers: z.unknown() }).optional(),
+	cause: z.looseObject({ code: z.string().optional() }).optional(),
+});
+
+const getHeader = (headers: unknown, name: string) => {
+	if (headers instanceof Headers) return headers.get(name) ?? undefined;
+
+	const record = z.record(z.string(), z.unknown()).safeParse(headers).data;
+	const value = Object.entries(record ?? {}).find(
+		([key]) => key.toLowerCase() === name,
+	)?.[1];
+	return typeof value === "string" ? value : undefined;
+};
+
+/**
+ * `Retry-After` is either a number of seconds or an http date
+ */
+const parseRetryAfter = (value: string | undefined) => {
+	if (!value) return undefined;
+
+	const seconds = Number(value);
+	if (Number.isFinite(seconds)) return Math.max(0, seconds * SECOND);
+
+	const date = Date.parse(value);
+	return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * whether an error is worth retrying, and why. undefined means it isn't
+ */
+const classify = (api: Api, error: unknown): Failure | undefined => {
+	const parsed = errorSchema.safeParse(error).data;
+	if (!parsed) return undefined;
+
+	const status = parsed.status ?? parsed.statusCode;
+	if (status === 401 && api === "notion") {
+		return {
+			reason: "token rejected",
+			rateLimited: false,
+			tokenRejected: true,
+		};
+	}
+	if (status === 429) {
+		return {
+			reason: "rate limited",
+			rateLimited: true,
+			retryAfterMs: parseRetryAfter(
+				getHeader(parsed.headers ?? parsed.response?.headers, "retry-after"),
+			),
+		};
+	}
+	if (status !== undefined && status >= 500) {
+		return { reason: `status ${status}`, rateLimited: false };
+	}
+	// notion asks for conflicting writes to be retried
+	if (parsed.code === "conflict_error") {
+		return { reason: "conflict", rateLimited: false };
+	}
+
+	if (
+		parsed.code === "notionhq_client_request_timeout" ||
+		parsed.name === "RequestTimeoutError" ||
+		parsed.message?.includes("timed out")
+	) {
+		return { reason: "timed out", rateLimited: false };
+	}
+
+	const networkCode = parsed.cause?.code ?? parsed.code;
+	if (
+		(networkCode && NETWORK_ERROR_CODES.has(networkCode)) ||
+		parsed.message === "fetch failed"
+	) {
+		return {
+			reason: `network error (${networkCode ?? "fetch failed"})`,
+			rateLimited: false,
+		};
+	}
+
+	return undefined;
+};
+
+/**
+ * per-api health
+ */
+const health: Record<
+	Api,
+	{
+		failures: number;
+		openUntil: number;
+		pausedUntil: number;
+		slowdown: number;
+		slowUntil: number;
+	}
+> = {
+	notion: {
+		failures: 0,
+		openUntil: 0,
+		pausedUntil: 0,
+		slowdown: 1,
+		slowUntil: 0,
+	},
+	harvest: {
+		failures: 0,
+		openUntil: 0,
+		pausedUntil: 0,
+		slowdown: 1,
+		slowUntil: 0,
+	},
+};
+
+export const isHealthy = (api: Api) => health[api].openUntil <= Date.now();
+
+/**
+ * background and bulk work waits here while the api's breaker is open
+ */
+export const waitUntilHealthy = async (api: Api, updateType: UpdateType) => {
+	if (updateType === "realtime") return;
+
+	while (!isHealthy(api)) {
+		await new Promise((resolve) =>
+			setTimeout(resolve, health[api].openUntil - Date.now()),
+		);
+	}
+};
+
+/**
+ * the delay between queued operations for an api, stretched after a 429 and held
+ * until its `Retry-After` has passed
+ */
+export const pacedWait = (api: Api, wait: number) => () => {
+	const state = health[api];
+	const now = Date.now();
+	if (state.slowUntil <= now) state.slowdown = 1;
+
+	return Math.max(wait * state.slowdown, state.pausedUntil - now);
+};
+
+const slowDown = (api: Api, retryAfterMs: number | undefined) => {
+	const state = health[api];
+	const now = Date.now();
+
+	state.pausedUntil = Math.max(state.pausedUntil, now + (retryAfterMs ?? 0));
+	state.slowdown = Math.min(state.slowdown * 2, MAX_SLOWDOWN);
+	state.slowUntil = now + SLOWDOWN_FOR;
+};
+
+const recordSuccess = (api: Api) => {
+	const state = health[api];
+	if (state.openUntil > 0) {
+		logMessage("API", `${api} recovered, resuming background work`);
+	}
+	state.failures = 0;
+	state.openUntil = 0;
+};
+
+const recordFailure = (api: Api, error: unknown, updateType: UpdateType) => {
+	const state = health[api];
+	state.failures += 1;
+	if (state.failures < BREAKER_THRESHOLD) return;
+
+	const wasOpen = state.openUntil > 0;
+	state.openUntil = Date.now() + BREAKER_OPEN_FOR;
+	if (!wasOpen) {
+		warn(
+			`${api} failed ${state.failures} times in a row, pausing background and bulk work`,
+			error,
+			updateType,
+			{ coolDownKey: `breaker:${api}`, everyUpdateType: true },
+		);
+	}
+};
+
+/**
+ * exponential backoff with jitter, so retries from many cards don't line up
+ */
+const backoff = (baseDelay: number, attempt: number) => {
+	const ceiling = Math.min(MAX_BACKOFF, baseDelay * 2 ** (attempt - 1));
+	return Math.round(ceiling / 2 + (Math.random() * ceiling) / 2);
+};
+
+/**
+ * wait out a `Retry-After`, plus a little, so everything that was rate limited at
+ * the same moment doesn't retry at the same moment too
+ */
+const afterRetryAfter = (retryAfterMs: number, baseDelay: number) =>
+	retryAfterMs + Math.round(Math.random() * baseDelay);
+
+/**
+ * run an api call, retrying transient failures. the operation should take its rate
+ * limit slot itself, so each retry goes back through the queues
+ */
+export const withResilience = async <T>(
+	api: Api,
+	operation: () => Promise<T>,
+	operationName: string,
+	updateType: UpdateType,
+	maxRetries = 10,
+	baseDelay = 1000,
+): Promise<T> => {
+	for (let attempt = 1; ; attempt++) {
+		try {
+			const result = await operation();
+			recordSuccess(api);
+			return result;
+		} catch (error: unknown) {
+			const failure = classify(api, error);
+			// not transient, retrying won't help
+			if (!failure) throw error;
+
+			if (failure.rateLimited) slowDown(api, failure.retryAfterMs);
+			else if (!failure.tokenRejected) recordFailure(api, error, updateType);
+
+			if (attempt >= maxRetries) {
+				warn(
+					`${operationName} failed after ${maxRetries} attempts (${failure.reason})`,
+					error,
+					updateType,
+				);
+				throw error;
+			}
+
+			const delay =
+				failure.retryAfterMs === undefined
+					? backoff(baseDelay, attempt)
+					: afterRetryAfter(failure.retryAfterMs, baseDelay);
+			logMessage(
+				"API",
+				`${operationName} attempt ${attempt} failed (${failure.reason}), retrying in ${delay}ms...`,
+			);
+
+			await new Promise((resolve) => setTimeout(resolve, delay));
+		}
+	}
+};
@@ -0,0 +1,144 @@
+import { HOUR, MINUTE, SECOND } from "better-memory-cache";
+import { logMessage } from "./logging";
+
+/**
+ * one scheduler owns the background refresh of every card we know about, instead of
+ * each card keeping its own timer forever.
+ *
+ * refreshes are spread out so only a handful run per tick, cards with recent activity
+ * refresh more often, and cards nobody has touched in a while are evicted (they get
+ * loaded again on demand if an entry or a relation needs them)
+ */
+
+type ScheduledCard = {
+	id: string;
+	update: (updateType: "background") => Promise<void>;
+	/**
+	 * forget the card entirely, e.g. drop it from the card cache
+	 */
+	evict: () => void;
+};
+
+type Tracked = {
+	card: ScheduledCard;
+	lastActive: number;
+	nextRefresh: number;
+};
+
+const TICK = 10 * SECOND;
+/**
+ * cards with activity within ACTIVE_WINDOW refresh every ACTIVE_INTERVAL
+ */
+const ACTIVE_WINDOW = HOUR;
+const ACTIVE_INTERVAL = 5 * MINUTE;
+const IDLE_INTERVAL = 30 * MINUTE;
+/**
+ * cards with no activity for this long are evicted
+ */
+const EVICT_AFTER = 24 * HOUR;
+const STATS_INTERVAL = HOUR;
+
+const tracked = new Map<string, Tracked>();
+let running = false;
+let lastStats = Date.now();
+
+const refreshInterval = (entry: Tracked, now: number) =>
+	now - entry.lastActive < ACTIVE_WINDOW ? ACTIVE_INTERVAL : IDLE_INTERVAL;
+
+/**
+ * give or take a quarter, so cards loaded together drift apart
+ */
+const jittered = (interval: number) => interval * (0.75 + Math.random() / 2);
+
+export const trackCard = (card: ScheduledCard) => {
+	const now = Date.now();
+	tracked.set(card.id, {
+		card,
+		lastActive: now,
+		// spread the first refresh over a whole interval
+		nextRefresh: now + Math.random() * ACTIVE_INTERVAL,
+	});
+};
+
+export const untrackCard = (cardId: string) => {
+	tracked.delete(cardId);
+};
+
+/**
+ * note activity on a card (e.g. a realtime update), which keeps it refreshing often
+ * and stops it from being evicted
+ */
+export const markActive = (cardId: string) => {
+	const entry = tracked.get(cardId);
+	if (!entry) return;
+
+	const now = Date.now();
+	entry.lastActive = now;
+	entry.nextRefresh = Math.min(entry.nextRefresh, now + ACTIVE_INTERVAL);
+};
+
+export const getSchedulerStats = () => {
+	const now = Date.now();
+	const entries = [...tracked.values()];
+
+	return {
+		tracked: entries.length,
+		active: entries.filter((e) => now - e.lastActive < ACTIVE_WINDOW).length,
+		due: entries.filter((e) => e.nextRefresh <= now).length,
+	};
+};
+
+const tick = async () => {
+	const now = Date.now();
+
+	for (const [id, entry] of tracked) {
+		if (now - entry.lastActive > EVICT_AFTER) {
+			tracked.delete(id);
+			entry.card.evict();
+		}
+	}
+
+	// enough per tick to get through every card once per active interval
+	const perTick = Math.max(
+		1,
+		Math.ceil((tracked.size * TICK) / ACTIVE_INTERVAL),
+	);
+	const due = [...tracked.values()]
+		.filter((entry) => entry.nextRefresh <= now)
+		.sort((a, b) => a.nextRefresh - b.nextRefresh)
+		.slice(0, perTick);
+
+	// a failed refresh is already logged, and the card just tries again next time
+	await Promise.allSettled(
+		due.map(async (entry) => {
+			entry.nextRefresh = now + jittered(refreshInterval(entry, now));
+			await entry.card.update("background");
+		}),
+	);
+
+	if (now - lastStats > STATS_INTERVAL) {
+		lastStats = now;
+		const stats = getSchedulerStats();
+		logMessage(
+			"LOOP",
+			`scheduler is tracking ${stats.tracked} cards (${stats.active} active, ${stats.due} due)`,
+		);
+	}
+};
+
+const loop = async () => {
+	const waiting = new Promise((resolve) => setTimeout(resolve, TICK));
+	await tick();
+	await waiting;
+	loop();
+};
+
+/**
+ * start refreshing tracked cards. only the long-running sync needs this, one-off
+ * commands load cards without ever refreshing them in the background
+ */
+export const startScheduler = () => {
+	if (running) return;
+	running = true;
+	loop();
+};
@@ -0,0 +1,223 @@
+import { z } from "zod";
+import { config } from "./config";
+import type { UpdateType } from "./limits";
+import { logMessage } from "./logging";
+import { getDatabaseProperties } from "./notion";
+import { getTitle } from "./util";
+
+/**
+ * notion property names come from config, so pages are parsed into a fixed shape
+ * here and the rest of the sync never needs to know what a column is called
+ */
+const names = config.properties;
+
+const titleText = z
+	.object({ title: z.array(z.object({ plain_text: z.string() })) })
+	.transform((property) => getTitle(property.title));
+
+const richText = z
+	.object({ rich_text: z.array(z.object({ plain_text: z.string() })) })
+	.transform((property) => getTitle(property.rich_text));
+
+const relationIds = z
+	.object({ relation: z.array(z.object({ id: z.string() })) })
+	.transform((property) => property.relation.map((r) => r.id));
+
+const numberValue = z
+	.object({ number: z.number().nullable() })
+	.transform((property) => property.number ?? undefined);
+
+const peopleIds = z
+	.object({ people: z.array(z.object({ id: z.string() })) })
+	.transform((property) => property.people.map((p) => p.id));
+
+const pageSchema = z.object({
+	id: z.string(),
+	properties: z.record(z.string(), z.unknown()),
+});
+
+export const cardSchema = pageSchema
+	.transform((page) => ({
+		...page,
+		taskName: page.properties[names.taskName],
+		parentIds: page.properties[names.parentTask],
+		childIds: page.properties[names.subTasks],
+		projectIds: page.properties[names.project],
+		timeSpent: page.properties[names.timeSpent],
+	}))
+	.pipe(
+		z.object({
+			id: z.string(),
+			// keep every property, since config can point at ones we don't parse here
+			properties: z.record(z.string(), z.unknown()),
+			taskName: titleText,
+			parentIds: relationIds,
+			childIds: relationIds,
+			projectIds: relationIds,
+			timeSpent: richText,
+		}),
+	);
+export type Card = z.infer<typeof cardSchema>;
+
+export const clientSchema = pageSchema
+	.transform((page) => ({
+		...page,
+		name: page.properties[names.projectName],
+	}))
+	.pipe(
+		z.object({
+			id: z.string(),
+			properties: z.record(z.string(), z.unknown()),
+			name: titleText,
+		}),
+	);
+export type NotionClient = z.infer<typeof clientSchema>;
+
+/**
+ * optional properties are named in config, so they're read off a page one at a time.
+ * undefined when the property isn't configured or isn't the expected type
+ */
+const readProperty = <T extends z.ZodType>(
+	schema: T,
+	page: unknown,
+	property: string | undefined,
+): z.output<T> | undefined => {
+	if (!property) return undefined;
+
+	return pageSchema
+		.transform((p) => p.properties[property])
+		.pipe(schema)
+		.safeParse(page).data;
+};
+
+/**
+ * a number property, undefined when it's empty
+ */
+export const readNumber = (page: unknown, property: string | undefined) =>
+	readProperty(numberValue, page, property);
+
+export const readRichText = (page: unknown, property: string | undefined) =>
+	readProperty(richText, page, property);
+
+export const readPeopleIds = (page: unknown, property: string | undefined) =>
+	readProperty(peopleIds, page, property) ?? [];
+
+type ExpectedProperty = {
+	name: string | undefined;
+	setting: string;
+	type: string;
+};
+
+/**
+ * check that every configured property exists in notion with the type we expect.
+ * a renamed column would otherwise make pages quietly fail to parse, so cards would
+ * just stop updating
+ */
+export const validateNotionSchema = async (updateType: UpdateType) => {
+	const expected: Record<"task" | "client", ExpectedProperty[]> = {
+		task: [
+			{ name: names.taskName, setting: "properties.taskName", type: "title" },
+			{
+				name: names.parentTask,
+				setting: "properties.parentTask",
+				type: "relation",
+			},
+			{
+				name: names.subTasks,
+				setting: "properties.subTasks",
+				type: "relation",
+			},
+			{ name: names.project, setting: "properties.project", type: "relation" },
+			{
+				name: names.timeSpent,
+				setting: "properties.timeSpent",
+				type: "rich_text",
+			},
+			{ name: names.hours, setting: "properties.hours", type: "number" },
+			{
+				name: names.estimate,
+				setting: "properties.estimate",
+				type: "number",
+			},
+			{
+				name: names.percentUsed,
+				setting: "properties.percentUsed",
+				type: "number",
+			},
+			{
+				name: config.linking.property,
+				setting: "linking.property",
+				type: "rich_text",
+			},
+			{
+				name: config.autoCreate.tag?.property,
+				setting: "autoCreate.tag.property",
+				type: "select",
+			},
+			...config.windows.properties.map(({ property }) => ({
+				name: property,
+				setting: "windows.properties",
+				type: "number",
+			})),
+			{
+				name: config.windows.lastTracked,
+				setting: "windows.lastTracked",
+				type: "date",
+			},
+			{
+				name: config.contributors.property,
+				setting: "contributors.property",
+				type:
+					config.contributors.format === "text" ? "rich_text" : "multi_select",
+			},
+			{
+				name: config.duplicates.assigneeProperty,
+				setting: "duplicates.assigneeProperty",
+				type: "people",
+			},
+		],
+		client: [
+			{
+				name: names.projectName,
+				setting: "properties.projectName",
+				type: "title",
+			},
+			...(["total", "matched", "unmatched"] as const).map((field) => ({
+				name: config.clientTotals[field],
+				setting: `clientTotals.${field}`,
+				type: "number",
+			})),
+		],
+	};
+
+	const problems: string[] = [];
+	for (const [database, properties] of Object.entries(expected) as [
+		"task" | "client",
+		ExpectedProperty[],
+	][]) {
+		const actual = await getDatabaseProperties(database, updateType);
+
+		for (const { name, setting, type } of properties) {
+			if (!name) continue;
+
+			const actualType = actual[name]?.type;
+			if (!actualType) {
+				problems.push(
+					`${database} database has no property "${name}" (${setting})`,
+				);
+			} else if (actualType !== type) {
+				problems.push(
+					`${database} database property "${name}" (${setting}) is ${actualType}, expected ${type}`,
+				);
+			}
+		}
+	}
+
+	if (problems.length > 0) {
+		throw new Error(
+			`Notion schema does not match config:\n${problems.map((p) => `  - ${p}`).join("\n")}`,
+		);
+	}
+
+	logMessage("API", "notion schema matches config");
+};
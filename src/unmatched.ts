@@ -0,0 +1,129 @@
+import { shouldSync } from "./harvest";
+import {
+	getMeta,
+	getUnmatchedEntries,
+	type LedgerEntry,
+	setMeta,
+} from "./ledger";
+import { logMessage, notifySlack, warn } from "./logging";
+import { NotionCard } from "./NotionCard";
+import { editDistance, normalizeTaskName, round } from "./util";
+
+const DAY = 24 * 60 * 60 * 1000;
+// how far back the digest looks
+const WINDOW = 30 * DAY;
+const MAX_GROUPS = 25;
+const MAX_SUGGESTIONS = 3;
+
+type UnmatchedGroup = {
+	client: string;
+	notes: string;
+	hours: number;
+	entries: LedgerEntry[];
+};
+
+/**
+ * group unmatched entries by client + task name, most untracked hours first
+ */
+const groupUnmatched = (entries: LedgerEntry[]) => {
+	const groups = new Map<string, UnmatchedGroup>();
+
+	for (const entry of entries.filter(shouldSync)) {
+		const groupKey = `${entry.client.name}:${normalizeTaskName(entry.notes)}`;
+		const group = groups.get(groupKey) ?? {
+			client: entry.client.name,
+			notes: entry.notes.trim().split(/\r?\n/)[0] ?? "",
+			hours: 0,
+			entries: [],
+		};
+		group.hours += entry.hours;
+		group.entries.push(entry);
+		groups.set(groupKey, group);
+	}
+
+	return [...groups.values()].sort((a, b) => b.hours - a.hours);
+};
+
+/**
+ * the existing card names in a client closest to some notes
+ */
+const suggestCards = async (group: UnmatchedGroup) => {
+	const { cards } = await NotionCard.findClientCards(
+		group.client,
+		"background",
+	);
+	const target = normalizeTaskName(group.notes);
+
+	return cards
+		.map((card) => card.taskName)
+		.map((name) => ({
+			name,
+			distance: editDistance(normalizeTaskName(name), target),
+		}))
+		.sort((a, b) => a.distance - b.distance)
+		.slice(0, MAX_SUGGESTIONS)
+		.map((s) => s.name);
+};
+
+const sendUnmatchedDigest = async () => {
+	const groups = groupUnmatched(
+		getUnmatchedEntries(new Date(Date.now() - WINDOW).toISOString()),
+	);
+	logMessage("AUDIT", `${groups.length} unmatched tasks in the last 30 days`);
+	if (groups.length === 0) return;
+
+	const totalHours = groups.reduce((acc, g) => acc + g.hours, 0);
+	const lines = await Promise.all(
+		groups.slice(0, MAX_GROUPS).map(async (group) => {
+			const users = [...new Set(group.entries.map((e) => e.user.name))];
+			const suggestions = await suggestCards(group);
+
+			return `• [${group.client}] "${group.notes}" — ${round(
+				group.hours,
+			)}h (${group.entries.length} entries by ${users.join(", ")})${
+				suggestions.length > 0
+					? `\n    did you mean ${suggestions.map((s) => `"${s}"`).join(", ")}?`
+					: ""
+			}`;
+		}),
+	);
+
+	await notifySlack(
+		[
+			`Unmatched time digest: ${round(totalHours)}h across ${groups.length} task(s) didn't match a Notion card. Fix the notes in Harvest or rename the card in Notion.`,
+			...lines,
+			...(groups.length > MAX_GROUPS
+				? [`…and ${groups.length - MAX_GROUPS} more`]
+				: []),
+		].join("\n"),
+	);
+};
+
+const runScheduledUnmatchedDigest = async () => {
+	try {
+		await sendUnmatchedDigest();
+		setMeta("unmatched_digest_sent", new Date().toISOString());
+	} catch (e) {
+		warn("unmatched entry digest failed", e, "background", {
+			everyUpdateType: true,
+		});
+	} finally {
+		setTimeout(runScheduledUnmatchedDigest, DAY);
+	}
+};
+
+/**
+ * send the digest once a day, counting from the last one so restarts don't skip
+ * or repeat it. the first start counts as a send, otherwise a service restarted
+ * more than once a day would never get to its first digest
+ */
+export const scheduleUnmatchedDigest = () => {
+	let lastSent = getMeta("unmatched_digest_sent");
+	if (!lastSent) {
+		lastSent = new Date().toISOString();
+		setMeta("unmatched_digest_sent", lastSent);
+	}
+
+	const delay = Math.max(0, new Date(lastSent).getTime() + DAY - Date.now());
+	setTimeout(runScheduledUnmatchedDigest, delay);
+};
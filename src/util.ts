@@ -1,24 +1,52 @@
-const processClientName = (name: string) => {
-	const basic = name.trim().toLowerCase();
+import { config } from "./config";
 
-	if (basic === "reform internal tasks") return "reform collective";
+const normalizeClientName = (name: string) => name.trim().toLowerCase();
 
-	if (basic === "fluid (product)") return "fluid";
+const aliases = new Map(
+	Object.entries(config.clients.aliases).map(([from, to]) => [
+		normalizeClientName(from),
+		normalizeClientName(to),
+	]),
+);
 
-	if (basic === "jillion llc") return "century";
+const processClientName = (name: string) => {
+	const basic = normalizeClientName(name);
 
-	if (basic === "inside milk") return "milk inside";
+	const alias = aliases.get(basic);
+	if (alias) return alias;
 
-	return basic.replaceAll("new form", "newform");
+	return config.clients.rewrites.reduce(
+		(acc, { from, to }) => acc.replaceAll(from.toLowerCase(), to.toLowerCase()),
+		basic,
+	);
 };
 
+const exactMatch = new Set(config.clients.exactMatch.map(processClientName));
+
 export const clientNamesMatch = (nameA: string, nameB: string) => {
 	const a = processClientName(nameA);
 	const b = processClientName(nameB);
 
+	// some clients collide with each other through prefix matching
+	if (exactMatch.has(a) || exactMatch.has(b)) return a === b;
+
 	return a.startsWith(b) || b.startsWith(a);
 };
 
+/**
+ * normalize notes to task names:
+ * - use only the first line (ignore details on second line)
+ * - strip any inline [...] or (...) segments (ignore details on same line)
+ * - compare using only lowercase alphanumerics
+ */
+export const normalizeTaskName = (name: string) => {
+	const firstLine = name.trim().split(/\r?\n/)[0] ?? "";
+	const withoutInlineDetails = firstLine
+		.replace(/\[[^\]]*\]/g, "")
+		.replace(/\([^)]*\)/g, "");
+	return withoutInlineDetails.toLowerCase().replaceAll(/[^a-z0-9]/g, "");
+};
+
 export const taskNamesMatch = (
 	nameA: string | undefined,
 	nameB: string | undefined,
@@ -27,17 +55,42 @@ export const taskNamesMatch = (
 		return false;
 	}
 
-	// normalize notes to task names:
-	// - use only the first line (ignore details on second line)
-	// - strip any inline [...] or (...) segments (ignore details on same line)
-	// - compare using only lowercase alphanumerics
-	const normalize = (name: string) => {
-		const firstLine = name.trim().split(/\r?\n/)[0] ?? "";
-		const withoutInlineDetails = firstLine
-			.replace(/\[[^\]]*\]/g, "")
-			.replace(/\([^)]*\)/g, "");
-		return withoutInlineDetails.toLowerCase().replaceAll(/[^a-z0-9]/g, "");
-	};
-
-	return normalize(nameA) === normalize(nameB);
+	return normalizeTaskName(nameA) === normalizeTaskName(nameB);
+};
+
+/**
+ * hours to 2 decimal places, as they're written to notion
+ */
+export const round = (hours: number) => Math.round(hours * 100) / 100;
+
+/**
+ * join a notion title or rich text property into a plain string
+ */
+export const getTitle = (title: { plain_text: string }[]) =>
+	title
+		.map((t) => t.plain_text)
+		.join("")
+		.trim();
+
+/**
+ * levenshtein distance between two strings
+ */
+export const editDistance = (a: string, b: string) => {
+	let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i];
+		for (let j = 1; j <= b.length; j++) {
+			const substitution =
+				(previous[j - 1] ?? 0) + (a[i - 1] === b[j - 1] ? 0 : 1);
+			current[j] = Math.min(
+				(previous[j] ?? 0) + 1,
+				(current[j - 1] ?? 0) + 1,
+				substitution,
+			);
+		}
+		previous = current;
+	}
+
+	return previous[b.length] ?? 0;
 };
@@ -0,0 +1,140 @@
+import { z } from "zod";
+import { config } from "./config";
+import type { LedgerEntry } from "./ledger";
+import { round } from "./util";
+
+/**
+ * hours in rolling time windows ("this week", "last 30 days") and the last day any
+ * time was tracked, based on each entry's spent_date. dates are YYYY-MM-DD strings
+ * in the configured timezone, so they compare as strings
+ */
+export type Windows = {
+	/**
+	 * hours per configured window property
+	 */
+	hours: Record<string, number>;
+	lastTracked: string | undefined;
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * today's date in the configured timezone
+ */
+export const today = () =>
+	new Date().toLocaleDateString("en-CA", {
+		timeZone: config.timeSpent.timezone,
+	});
+
+const addDays = (date: string, days: number) =>
+	new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY)
+		.toISOString()
+		.slice(0, 10);
+
+/**
+ * the first date that counts towards a window
+ */
+const windowStart = (
+	window: (typeof config.windows.properties)[number],
+	date: string,
+) => {
+	if ("days" in window) return addDays(date, 1 - window.days);
+	if (window.period === "month") return `${date.slice(0, 7)}-01`;
+
+	const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+	const sinceWeekStart =
+		config.windows.weekStartsOn === "monday" ? (weekday + 6) % 7 : weekday;
+	return addDays(date, -sinceWeekStart);
+};
+
+export const getWindows = (entries: LedgerEntry[]): Windows => {
+	const date = today();
+
+	const hours = Object.fromEntries(
+		config.windows.properties.map((window) => {
+			const start = windowStart(window, date);
+			return [
+				window.property,
+				entries
+					.filter((entry) => entry.spent_date >= start)
+					.reduce((acc, entry) => acc + entry.hours, 0),
+			];
+		}),
+	);
+
+	const lastTracked = entries
+		.filter((entry) => entry.hours > 0)
+		.map((entry) => entry.spent_date)
+		.reduce<string | undefined>(
+			(latest, spentDate) =>
+				!latest || spentDate > latest ? spentDate : latest,
+			undefined,
+		);
+
+	return { hours, lastTracked };
+};
+
+/**
+ * combine windows, the same way child hours roll up into their parent
+ */
+export const mergeWindows = (...windows: Windows[]): Windows => ({
+	hours: Object.fromEntries(
+		config.windows.properties.map(({ property }) => [
+			property,
+			windows.reduce((acc, w) => acc + (w.hours[property] ?? 0), 0),
+		]),
+	),
+	lastTracked: windows
+		.map((w) => w.lastTracked)
+		.reduce<string | undefined>(
+			(latest, date) => (date && (!latest || date > latest) ? date : latest),
+			undefined,
+		),
+});
+
+export const windowProperties = (windows: Windows) => ({
+	...Object.fromEntries(
+		config.windows.properties.map(({ property }) => [
+			property,
+			{ number: round(windows.hours[property] ?? 0) },
+		]),
+	),
+	...(config.windows.lastTracked
+		? {
+				[config.windows.lastTracked]: {
+					date: windows.lastTracked ? { start: windows.lastTracked } : null,
+				},
+			}
+		: {}),
+});
+
+/**
+ * whether the windows on a card differ from what we'd write
+ */
+export const windowsChanged = (card: unknown, windows: Windows) => {
+	const properties = z
+		.object({
+			properties: z.record(
+				z.string(),
+				z.object({
+					number: z.number().nullable().optional(),
+					date: z.object({ start: z.string() }).nullable().optional(),
+				}),
+			),
+		})
+		.safeParse(card).data?.properties;
+
+	const hoursChanged = config.windows.properties.some(
+		({ property }) =>
+			(properties?.[property]?.number ?? null) !==
+			round(windows.hours[property] ?? 0),
+	);
+
+	const lastTracked = config.windows.lastTracked;
+	const lastTrackedChanged =
+		lastTracked !== undefined &&
+		(properties?.[lastTracked]?.date?.start ?? undefined) !==
+			windows.lastTracked;
+
+	return hoursChanged || lastTrackedChanged;
+};